@@ -0,0 +1,5 @@
+#!/usr/bin/env node
+const { ProvisionRunner } = require('../dist/cli/ProvisionRunner');
+
+// eslint-disable-next-line no-sync
+new ProvisionRunner().runCliSync(process);
@@ -0,0 +1,177 @@
+import { readFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import type { Writable } from 'node:stream';
+import { parseArgs } from 'node:util';
+import { AppRunner } from '@solid/community-server/dist/init/AppRunner';
+import type { CliResolver } from '@solid/community-server/dist/init/CliResolver';
+import type { Finalizer } from '@solid/community-server/dist/init/final/Finalizer';
+import type { Initializer } from '@solid/community-server/dist/init/Initializer';
+import type { LoggerFactory } from '@solid/community-server/dist/logging/LoggerFactory';
+import { setGlobalLoggerFactory } from '@solid/community-server/dist/logging/LogUtil';
+import { createErrorMessage } from '@solid/community-server/dist/util/errors/ErrorUtil';
+import { joinFilePath, resolveAssetPath } from '@solid/community-server/dist/util/PathUtil';
+import type { ProfileProvisioner, ProvisionResult } from '../identity/interaction/profile/provision/ProfileProvisioner';
+import type { ProvisionFormat } from '../identity/interaction/profile/provision/ProvisionUtil';
+import { PROVISION_FORMATS } from '../identity/interaction/profile/provision/ProvisionUtil';
+
+const PROVISIONER = 'urn:solid-server:default:ProfileProvisioner';
+const CLI_RESOLVER = 'urn:solid-server-app-setup:default:CliResolver';
+const LOGGER_FACTORY = 'urn:solid-server:default:LoggerFactory';
+const CLEANUP_INITIALIZER = 'urn:solid-server:default:CleanupInitializer';
+const CLEANUP_FINALIZER = 'urn:solid-server:default:CleanupFinalizer';
+
+// The root of this package
+const MODULE_ROOT = joinFilePath(__dirname, '../..');
+
+const USAGE = `Usage: provision-profiles [options] <file>
+
+Creates or updates the profiles of the accounts listed in a CSV or JSON file,
+directly in the data folder of the server, which needs to be stopped.
+
+Options:
+  -i, --input <file>            CSV or JSON file with a row per account
+      --format <csv|json>       Format of the file, based on its extension if not set
+      --dry-run                 Only print the N3 patches, without changing any profile
+      --patch                   Only change the keys in the file, instead of replacing the profiles
+      --json                    Print the results as JSON
+  -c, --config <file>           Server config, can be repeated (default: config/file-mashlib.json)
+  -f, --rootFilePath <folder>   Data folder of the server
+  -b, --baseUrl <url>           Base URL of the server
+  -p, --port <port>             Port of the server, used for the default base URL
+  -m, --mainModulePath <path>   Folder to look for Components.js modules (default: this package)
+  -l, --loggingLevel <level>    Logging level of the server components (default: warn)
+  -h, --help                    Show this help
+`;
+
+/**
+ * Runs the {@link ProfileProvisioner} from the command line, see `bin/provision-profiles.js`.
+ *
+ * The components are built from the server config, as the {@link AppRunner} does,
+ * so the profiles are stored in the same way as when the server saves them,
+ * but only the components needed to provision the profiles are instantiated and no server is started.
+ * As the server resets its locks when it starts, the server needs to be stopped while this runs.
+ */
+export class ProvisionRunner {
+  /**
+   * Runs the command-line tool, exiting the process with 1 in case of failure or if a row failed.
+   *
+   * @param argv - Command line arguments.
+   * @param stdout - Stream to print the results to.
+   * @param stderr - Stream to print errors to.
+   */
+  public runCliSync({ argv, stdout = process.stdout, stderr = process.stderr }:
+  { argv: string[]; stdout?: Writable; stderr?: Writable }): void {
+    this.runCli(argv, stdout).then((success): void => {
+      process.exitCode = success ? 0 : 1;
+    }).catch((error: unknown): void => {
+      stderr.write(`${createErrorMessage(error)}\n`);
+      process.exitCode = 1;
+    });
+  }
+
+  /**
+   * Parses the arguments and provisions the profiles of the input file.
+   *
+   * @returns If all rows succeeded.
+   */
+  public async runCli(argv: string[], stdout: Writable): Promise<boolean> {
+    const { values, positionals } = parseArgs({
+      args: argv.slice(2),
+      allowPositionals: true,
+      options: {
+        input: { type: 'string', short: 'i' },
+        format: { type: 'string' },
+        'dry-run': { type: 'boolean' },
+        patch: { type: 'boolean' },
+        json: { type: 'boolean' },
+        config: { type: 'string', short: 'c', multiple: true },
+        rootFilePath: { type: 'string', short: 'f' },
+        baseUrl: { type: 'string', short: 'b' },
+        port: { type: 'string', short: 'p' },
+        mainModulePath: { type: 'string', short: 'm' },
+        loggingLevel: { type: 'string', short: 'l' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+
+    const input = values.input ?? positionals[0];
+    if (values.help || !input) {
+      stdout.write(USAGE);
+      return Boolean(values.help);
+    }
+    const format = (values.format ?? extname(input).slice(1).toLowerCase()) as ProvisionFormat;
+    if (!PROVISION_FORMATS.includes(format)) {
+      throw new Error(`Unknown format ${format}, use --format with one of ${PROVISION_FORMATS.join(', ')}`);
+    }
+    const content = await readFile(input, 'utf8');
+
+    const shorthand: Record<string, unknown> = { loggingLevel: values.loggingLevel ?? 'warn' };
+    for (const key of [ 'rootFilePath', 'baseUrl' ] as const) {
+      if (values[key]) {
+        shorthand[key] = values[key];
+      }
+    }
+    if (values.port) {
+      shorthand.port = Number(values.port);
+    }
+    const configs = values.config ?? [ joinFilePath(MODULE_ROOT, 'config/file-mashlib.json') ];
+
+    const provisioner = await this.createProvisioner(configs.map(resolveAssetPath),
+      resolveAssetPath(values.mainModulePath ?? MODULE_ROOT), shorthand);
+    const rows = provisioner.instance.parseRows(content, format);
+    let results: ProvisionResult[];
+    await provisioner.initializer.handleSafe();
+    try {
+      results = await provisioner.instance.provision(rows, { dryRun: values['dry-run'], partial: values.patch });
+    } finally {
+      await provisioner.finalizer.handleSafe();
+    }
+
+    stdout.write(values.json ? `${JSON.stringify(results, null, 2)}\n` : results.map(formatResult).join(''));
+    return results.every((result): boolean => result.status !== 'failed');
+  }
+
+  /**
+   * Instantiates the provisioner from the server config, with the variables resolved from the shorthand values,
+   * together with the initializer and finalizer that prepare and clean up the resource locks.
+   */
+  private async createProvisioner(configs: string[], mainModulePath: string, shorthand: Record<string, unknown>):
+  Promise<{ instance: ProfileProvisioner; initializer: Initializer; finalizer: Finalizer }> {
+    const componentsManager = await new AppRunner().createComponentsManager<unknown>({
+      mainModulePath,
+      logLevel: 'warn',
+      typeChecking: false,
+      dumpErrorState: false,
+    }, configs);
+    const cliResolver = await componentsManager.instantiate<CliResolver>(CLI_RESOLVER, {});
+    const variables = await cliResolver.shorthandResolver.handleSafe(shorthand);
+
+    setGlobalLoggerFactory(await componentsManager.instantiate<LoggerFactory>(LOGGER_FACTORY, { variables }));
+    return {
+      instance: await componentsManager.instantiate<ProfileProvisioner>(PROVISIONER, { variables }),
+      initializer: await componentsManager.instantiate<Initializer>(CLEANUP_INITIALIZER, { variables }),
+      finalizer: await componentsManager.instantiate<Finalizer>(CLEANUP_FINALIZER, { variables }),
+    };
+  }
+}
+
+/**
+ * Describes the result of a row on a line, followed by the validation errors or the patches of a dry run.
+ */
+function formatResult(result: ProvisionResult): string {
+  const account = result.email ?? result.accountId ?? 'unknown account';
+  let text = `Row ${result.row} (${account}): ${result.status}${result.webId ? ` ${result.webId}` : ''}\n`;
+  if (result.error) {
+    text += `  ${result.error}\n`;
+  }
+  for (const error of result.errors ?? []) {
+    text += `  - ${error.path}: ${error.message}\n`;
+  }
+  for (const patch of result.patches ?? []) {
+    text += `\n# ${patch.action} ${patch.document}\n${patch.patch}\n\n`;
+  }
+  if (result.status === 'preview' && result.patches?.length === 0) {
+    text += '  No changes\n';
+  }
+  return text;
+}
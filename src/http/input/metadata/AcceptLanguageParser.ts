@@ -0,0 +1,26 @@
+import { DataFactory } from 'n3';
+import type { HttpRequest } from '@solid/community-server/dist/server/HttpRequest';
+import type { RepresentationMetadata } from '@solid/community-server/dist/http/representation/RepresentationMetadata';
+import { MetadataParser } from '@solid/community-server/dist/http/input/metadata/MetadataParser';
+import { SOLID_META } from '@solid/community-server/dist/util/Vocabularies';
+
+/**
+ * Predicate of the request metadata containing the `Accept-Language` header.
+ */
+export const ACCEPT_LANGUAGE = DataFactory.namedNode('urn:npm:theodi:css-profile-creation:http:acceptLanguage');
+
+/**
+ * Stores the `Accept-Language` header of the request in its metadata.
+ * JSON interaction handlers only receive the metadata of a request, not its preferences,
+ * so this is how the profile view knows which language to show.
+ */
+export class AcceptLanguageParser extends MetadataParser {
+  public async handle({ request, metadata }: { request: HttpRequest; metadata: RepresentationMetadata }):
+  Promise<void> {
+    const header = request.headers['accept-language'];
+    if (header) {
+      // This metadata should not be stored
+      metadata.add(ACCEPT_LANGUAGE, header, SOLID_META.terms.ResponseMetadata);
+    }
+  }
+}
@@ -0,0 +1,161 @@
+import type { Readable } from 'node:stream';
+import Busboy from 'busboy';
+import { getLoggerFor } from '@solid/community-server/dist/logging/LogUtil';
+import { BasicRepresentation } from '@solid/community-server/dist/http/representation/BasicRepresentation';
+import type { Representation } from '@solid/community-server/dist/http/representation/Representation';
+import { RepresentationMetadata } from '@solid/community-server/dist/http/representation/RepresentationMetadata';
+import type { JsonRepresentation } from '@solid/community-server/dist/identity/interaction/InteractionUtil';
+import type { InteractionHandlerInput } from '@solid/community-server/dist/identity/interaction/InteractionHandler';
+import { InteractionHandler } from '@solid/community-server/dist/identity/interaction/InteractionHandler';
+import type {
+  JsonInteractionHandler,
+  JsonInteractionHandlerInput,
+} from '@solid/community-server/dist/identity/interaction/JsonInteractionHandler';
+import { APPLICATION_JSON } from '@solid/community-server/dist/util/ContentTypes';
+import { BadRequestHttpError } from '@solid/community-server/dist/util/errors/BadRequestHttpError';
+import { createErrorMessage } from '@solid/community-server/dist/util/errors/ErrorUtil';
+import { NotImplementedHttpError } from '@solid/community-server/dist/util/errors/NotImplementedHttpError';
+import type { Json } from '@solid/community-server/dist/util/Json';
+import { guardStream } from '@solid/community-server/dist/util/GuardedStream';
+import Dict = NodeJS.Dict;
+
+const MULTIPART_FORM_DATA = 'multipart/form-data';
+
+/**
+ * A binary part of a multipart body.
+ */
+export interface MultipartFile {
+  /**
+   * Name of the form field.
+   */
+  name: string;
+  /**
+   * Content of the part, which has to be consumed for the rest of the request to be read.
+   */
+  data: Readable;
+  /**
+   * Content type as claimed by the client.
+   */
+  contentType: string;
+  filename?: string;
+}
+
+export interface MultipartInteractionHandlerInput extends JsonInteractionHandlerInput {
+  /**
+   * The binary part of the request, in case of a multipart body containing one.
+   */
+  file?: MultipartFile;
+}
+
+/**
+ * An {@link InteractionHandler} that sits in-between
+ * an {@link InteractionHandler} and a {@link JsonInteractionHandler}, similar to the `JsonConversionHandler`,
+ * but for `multipart/form-data` bodies.
+ *
+ * The text fields of the body are converted into a JSON object.
+ * A field named `json` is parsed as JSON and its entries are added to that object,
+ * other fields are added as strings.
+ * The first binary part is passed along as `file` in the input, without reading it,
+ * so it can be streamed to its destination.
+ * As the handler is called as soon as the binary part is found, all text fields need to come before it.
+ */
+export class MultipartConversionHandler extends InteractionHandler {
+  protected readonly logger = getLoggerFor(this);
+
+  private readonly source: JsonInteractionHandler;
+
+  public constructor(source: JsonInteractionHandler) {
+    super();
+    this.source = source;
+  }
+
+  public async canHandle({ operation }: InteractionHandlerInput): Promise<void> {
+    if (operation.body.isEmpty || operation.body.metadata.contentType !== MULTIPART_FORM_DATA) {
+      throw new NotImplementedHttpError(`Only ${MULTIPART_FORM_DATA} bodies are supported.`);
+    }
+  }
+
+  public async handle({ operation, oidcInteraction, accountId }: InteractionHandlerInput): Promise<Representation> {
+    const json: Dict<Json> = {};
+    let file: MultipartFile | undefined;
+
+    const busboy = Busboy({
+      headers: { 'content-type': operation.body.metadata.contentTypeObject!.toHeaderValueString() },
+      limits: { files: 1 },
+    });
+
+    const result = await new Promise<JsonRepresentation>((resolve, reject): void => {
+      let called = false;
+      const callSource = (): void => {
+        if (called) {
+          return;
+        }
+        called = true;
+        const input: MultipartInteractionHandlerInput = {
+          method: operation.method,
+          target: operation.target,
+          metadata: operation.body.metadata,
+          json,
+          file,
+          oidcInteraction,
+          accountId,
+        };
+        this.source.handleSafe(input).then(resolve, reject);
+      };
+      const fail = (error: unknown): void => {
+        called = true;
+        reject(error);
+      };
+
+      busboy.on('field', (name: string, value: string): void => {
+        if (called) {
+          this.logger.warn(`Ignoring multipart field ${name}`);
+          return;
+        }
+        if (name !== 'json') {
+          json[name] = value;
+          return;
+        }
+        try {
+          Object.assign(json, parseJsonObject(value));
+        } catch (error: unknown) {
+          fail(error);
+        }
+      });
+      busboy.on('file', (name: string, data: Readable, info: Busboy.FileInfo): void => {
+        if (called) {
+          data.resume();
+          return;
+        }
+        file = { name, data: guardStream(data), contentType: info.mimeType, filename: info.filename };
+        callSource();
+      });
+      busboy.on('close', callSource);
+      busboy.on('error', (error: unknown): void => {
+        fail(new BadRequestHttpError(`Invalid multipart body: ${createErrorMessage(error)}`, { cause: error }));
+      });
+
+      operation.body.data.pipe(busboy);
+    }).finally((): void => {
+      // Make sure the rest of the request gets read in case the source did not consume the binary part
+      file?.data.resume();
+    });
+
+    // Convert the response JSON back to a Representation
+    const responseMetadata = result.metadata ?? new RepresentationMetadata(operation.target);
+    return new BasicRepresentation(JSON.stringify(result.json), responseMetadata, APPLICATION_JSON);
+  }
+}
+
+function parseJsonObject(value: string): Dict<Json> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error: unknown) {
+    throw new BadRequestHttpError('The json field of the multipart body does not contain valid JSON.', { cause: error });
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new BadRequestHttpError('The json field of the multipart body needs to contain a JSON object.');
+  }
+  return parsed as Dict<Json>;
+}
@@ -0,0 +1,38 @@
+import type { JsonRepresentation } from '@solid/community-server/dist/identity/interaction/InteractionUtil';
+import type { JsonInteractionHandlerInput } from '@solid/community-server/dist/identity/interaction/JsonInteractionHandler';
+import { JsonInteractionHandler } from '@solid/community-server/dist/identity/interaction/JsonInteractionHandler';
+import type { JsonView } from '@solid/community-server/dist/identity/interaction/JsonView';
+import { MethodNotAllowedHttpError } from '@solid/community-server/dist/util/errors/MethodNotAllowedHttpError';
+
+/**
+ * A ViewInteractionHandler that also accepts PATCH requests,
+ * so the source can support partial updates next to the full updates of POST requests.
+ *
+ * Returns the result of the {@link JsonView} on GET requests,
+ * POST and PATCH requests are sent to the {@link JsonInteractionHandler}, which can tell them apart by their method.
+ */
+export class PatchViewInteractionHandler extends JsonInteractionHandler {
+  private readonly source: JsonInteractionHandler & JsonView;
+
+  public constructor(source: JsonInteractionHandler & JsonView) {
+    super();
+    this.source = source;
+  }
+
+  public async canHandle(input: JsonInteractionHandlerInput): Promise<void> {
+    const { method } = input;
+    if (method !== 'GET' && method !== 'POST' && method !== 'PATCH') {
+      throw new MethodNotAllowedHttpError([ method ], 'Only GET/POST/PATCH requests are supported.');
+    }
+    if (method !== 'GET') {
+      await this.source.canHandle(input);
+    }
+  }
+
+  public async handle(input: JsonInteractionHandlerInput): Promise<JsonRepresentation> {
+    if (input.method === 'GET') {
+      return this.source.getView(input);
+    }
+    return this.source.handle(input);
+  }
+}
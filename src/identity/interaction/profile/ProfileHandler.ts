@@ -1,27 +1,64 @@
 import { DataFactory } from 'n3';
-import type { Quad } from '@rdfjs/types';
+import type { Quad, Term } from '@rdfjs/types';
 import { getLoggerFor } from '@solid/community-server/dist/logging/LogUtil';
 import { BadRequestHttpError } from '@solid/community-server/dist/util/errors/BadRequestHttpError';
 import { NotFoundHttpError } from '@solid/community-server/dist/util/errors/NotFoundHttpError';
+import { ForbiddenHttpError } from '@solid/community-server/dist/util/errors/ForbiddenHttpError';
+import { ConflictHttpError } from '@solid/community-server/dist/util/errors/ConflictHttpError';
+import { PreconditionFailedHttpError } from '@solid/community-server/dist/util/errors/PreconditionFailedHttpError';
+import { errorTermsToMetadata } from '@solid/community-server/dist/util/errors/HttpErrorUtil';
 import { createErrorMessage } from '@solid/community-server/dist/util/errors/ErrorUtil';
 import { isUrl } from '@solid/community-server/dist/util/StringUtil';
 import { parseQuads, serializeQuads } from '@solid/community-server/dist/util/QuadUtil';
 import { TEXT_N3, TEXT_TURTLE } from '@solid/community-server/dist/util/ContentTypes';
-import { guardedStreamFrom } from '@solid/community-server/dist/util/StreamUtil';
+import { guardedStreamFrom, readableToString } from '@solid/community-server/dist/util/StreamUtil';
 import { BasicRepresentation } from '@solid/community-server/dist/http/representation/BasicRepresentation';
 import type { JsonRepresentation } from '@solid/community-server/dist/identity/interaction/InteractionUtil';
 import type { Json } from '@solid/community-server/dist/util/Json';
 import Dict = NodeJS.Dict;
 import { JsonInteractionHandler } from '@solid/community-server/dist/identity/interaction/JsonInteractionHandler';
 import type { JsonInteractionHandlerInput } from '@solid/community-server/dist/identity/interaction/JsonInteractionHandler';
+import type { MultipartInteractionHandlerInput } from '../MultipartConversionHandler';
 import type { JsonView } from '@solid/community-server/dist/identity/interaction/JsonView';
-import { assertAccountId } from '@solid/community-server/dist/identity/interaction/account/util/AccountUtil';
+import { assertAccountId, verifyAccountId } from '@solid/community-server/dist/identity/interaction/account/util/AccountUtil';
+import type { WebIdLinkRoute } from '@solid/community-server/dist/identity/interaction/webid/WebIdLinkRoute';
+import type { ResourceIdentifier } from '@solid/community-server/dist/http/representation/ResourceIdentifier';
 import type { ResourceStore } from '@solid/community-server/dist/storage/ResourceStore';
 import type { WebIdStore } from '@solid/community-server/dist/identity/interaction/webid/util/WebIdStore';
 import type { PasswordStore } from '@solid/community-server/dist/identity/interaction/password/util/PasswordStore';
 import { RepresentationMetadata } from '@solid/community-server/dist/http/representation/RepresentationMetadata';
 import type { N3Patch } from '@solid/community-server/dist/http/representation/N3Patch';
-import { v4 } from 'uuid';
+import { BasicConditions } from '@solid/community-server/dist/storage/conditions/BasicConditions';
+import type { Conditions } from '@solid/community-server/dist/storage/conditions/Conditions';
+import type { ETagHandler } from '@solid/community-server/dist/storage/conditions/ETagHandler';
+import type { AuxiliaryIdentifierStrategy } from '@solid/community-server/dist/http/auxiliary/AuxiliaryIdentifierStrategy';
+import { findCountryCode, getCountryName } from './address/CountryUtil';
+import type { ProfileField } from './fields/ProfileField';
+import type { ProfileImageService } from './image/ProfileImageService';
+import type { ContactIndex } from './contacts/ContactIndex';
+import type { ContactResolver } from './contacts/ContactResolver';
+import type { ProfileDirectory } from './directory/ProfileDirectory';
+import type { OrganizationRegistry, RegisteredOrganization } from './organization/OrganizationRegistry';
+import type { EmailVerificationService, PendingEmail } from './email/EmailVerificationService';
+import type { DocumentPatch, ProfileHistory, ProfileRevision } from './history/ProfileHistory';
+import { undoRevisions } from './history/ProfileHistory';
+import { isSameEmail } from './email/EmailVerificationService';
+import type { ProfileChangeEvent, ProfileChangeListener } from './events/ProfileChangeListener';
+import { normalizePhoneNumber, toTelUri } from './phone/PhoneUtil';
+import type { Visibility } from './visibility/VisibilityUtil';
+import {
+  createAclQuads,
+  extractVisibility,
+  getVisibilityDocumentUrl,
+  splitByVisibility,
+  VISIBILITY_LEVELS,
+} from './visibility/VisibilityUtil';
+import { createValidationError, validateProfileData, validateVocabularyTerms } from './validation/ProfileValidator';
+import type { Vocabulary } from './vocabulary/Vocabulary';
+import { createStableIri, diffQuads, getSubgraph, hasBlankNode, hashQuads, subtractQuads } from './util/DiffUtil';
+import type { LocalizedText } from './util/LanguageUtil';
+import { addLocalizedTerm, getAcceptedLanguages, pickLanguage, toLocalizedLiterals } from './util/LanguageUtil';
+import { applyPartialUpdate } from './util/MergePatchUtil';
 
 // RDF Vocabulary namespaces
 const FOAF = 'http://xmlns.com/foaf/0.1/';
@@ -31,6 +68,10 @@ const SOLID = 'http://www.w3.org/ns/solid/terms#';
 const RDF = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
 const ORG = 'http://www.w3.org/ns/org#';
 const RDFS = 'http://www.w3.org/2000/01/rdf-schema#';
+const XSD = 'http://www.w3.org/2001/XMLSchema#';
+
+// Marks the profiles that are listed in the directory of the server, so the directory can be rebuilt from them
+const LIST_IN_DIRECTORY = 'urn:npm:theodi:css-profile-creation:profile:listInDirectory';
 
 // Profile data type matching SolidOS profile schema
 export type ProfileData = Dict<Json> & {
@@ -38,11 +79,42 @@ export type ProfileData = Dict<Json> & {
   profileBackgroundColor?: string;
   profileHighlightColor?: string;
 
-  // Basic info
-  name?: string;
-  nickname?: string;
-  email?: string; // Read-only, from account
-  phone?: string;
+  // Basic info, a text or a language map with a text per language, such as { "en": "…", "el": "…" }
+  name?: LocalizedText;
+  nickname?: LocalizedText;
+  email?: string; // Read-only, the published login email of the account
+
+  // Publish the login email of the account as foaf:mbox, off by default
+  publishEmail?: boolean;
+
+  // List the profile in the directory of the server, so other users can find it, off by default
+  listInDirectory?: boolean;
+
+  // Contact email addresses (vcard:hasEmail), addresses other than the login email are verified before being added
+  emails?: {
+    id?: string; // IRI of the email node, stays the same between saves
+    email: string;
+    type?: string; // vCard type such as "Work" or "Home"
+  }[];
+
+  // Phone numbers (vcard:hasTelephone), stored as tel: URIs
+  phones?: {
+    id?: string; // IRI of the telephone node, stays the same between saves
+    phone: string; // E.164 format such as "+442079460958"
+    type?: string; // vCard type such as "Cell", "Work" or "Home"
+  }[];
+
+  // Postal addresses (vcard:hasAddress), each with its own visibility
+  addresses?: {
+    id?: string; // IRI of the address node, stays the same between saves
+    type?: string; // vCard type such as "Home" or "Work"
+    streetAddress?: string;
+    locality?: string; // City or town
+    region?: string;
+    postalCode?: string;
+    country?: string; // ISO 3166-1 alpha-2 code such as "GB"
+    visibility?: Visibility; // Public if not set
+  }[];
 
   // Contacts/Friends (array of WebIDs)
   knows?: string[];
@@ -65,6 +137,7 @@ export type ProfileData = Dict<Json> & {
 
   // Social media accounts (array of account objects)
   accounts?: {
+    id?: string; // IRI of the account node, stays the same between saves
     type: string;
     accountName: string;
     accountServiceHomepage?: string;
@@ -77,106 +150,337 @@ export type ProfileData = Dict<Json> & {
 
   // CV/Organizations (array of organization memberships)
   organizations?: {
+    id?: string; // IRI of the role node, stays the same between saves
     organization?: string; // Can be URI or name
     organizationName?: string; // Plain text name (alternative to URI)
-    role?: string;
+    // Only used when an organization is added to the registry, they are part of its description
+    organizationHomepage?: string;
+    organizationLogo?: string;
+    role?: LocalizedText;
     startDate?: string;
     endDate?: string;
-    description?: string;
+    description?: LocalizedText;
     roleType?: 'CurrentRole' | 'PastRole' | 'FutureRole';
   }[];
+
+  // Who can read the fields, with the field keys as keys. Fields are public if not set.
+  visibility?: Dict<Visibility>;
 };
 
 /**
- * Validation result
+ * A document storing (part of) the profile.
  */
-interface ValidationResult {
-  valid: boolean;
-  errors: string[];
+interface ProfileDocument {
+  identifier: ResourceIdentifier;
+  quads: Quad[];
+  // Undefined if the document does not exist
+  metadata?: RepresentationMetadata;
 }
 
+type ProfileDocuments = Record<Visibility, ProfileDocument>;
+
 /**
- * Validates profile data
+ * The quads to delete from and insert into a profile document,
+ * and the quads that need to be present for the change to be made.
  */
-function validateProfileData(data: unknown): ValidationResult {
-  const errors: string[] = [];
+type ProfilePatchData = { deletes: Quad[]; inserts: Quad[]; conditions: Quad[] };
 
-  if (typeof data !== 'object' || data === null) {
-    return { valid: false, errors: [ 'Profile data must be an object' ]};
-  }
+/**
+ * A validated update, with the profile data as it will be stored.
+ */
+interface PreparedUpdate {
+  webId: string;
+  documents: ProfileDocuments;
+  previousProfile: ProfileData;
+  profile: ProfileData;
+  // Contact email addresses that are only added once they are verified
+  pendingEmails: PendingEmail[];
+  // Organizations the profile links to that are only added to the registry once the profile is saved
+  newOrganizations: RegisteredOrganization[];
+  // The quads a partial update changes, undefined for updates replacing the entire profile
+  scope?: UpdateScope;
+}
+
+/**
+ * A change an update would make to one of the profile documents, as N3 patch.
+ * The `action` is `create` for a document that does not exist yet,
+ * and `replace` for a document that is rewritten because it still contains blank nodes,
+ * in which case `patch` contains the entire new document as Turtle instead.
+ */
+export type ProfilePatchPreview = {
+  document: string;
+  action: 'create' | 'patch' | 'replace';
+  patch: string;
+};
+
+/**
+ * A revision of the profile as it is listed to the user.
+ */
+export type RevisionSummary = {
+  id: string;
+  date: string;
+  accountId?: string;
+  // The fields that were changed by the revision
+  keys: string[];
+};
 
-  const profile = data as Record<string, unknown>;
+/**
+ * How a field differs between two versions of a profile.
+ */
+export type ProfileChange = {
+  key: string;
+  // Not set if the field had no value
+  before?: Json;
+  // Not set if the field has no value
+  after?: Json;
+};
 
-  // Validate colors (hex format)
-  if (profile.profileBackgroundColor !== undefined && (typeof profile.profileBackgroundColor !== 'string' || !/^#[\da-f]{6}$/i.test(profile.profileBackgroundColor))) {
-    errors.push('profileBackgroundColor must be a valid hex color (e.g., #ffffff)');
+/**
+ * Returns the predicates of all the fields of which the visibility can be changed,
+ * with the field keys as keys.
+ */
+function getKeyPredicates(fields: ProfileField[]): Record<string, string[]> {
+  const keyPredicates: Record<string, string[]> = {
+    emails: [ `${FOAF}mbox`, `${VCARD}hasEmail` ],
+    phones: [ `${VCARD}hasTelephone` ],
+  };
+  for (const field of fields) {
+    keyPredicates[field.key] = field.predicates;
   }
+  return keyPredicates;
+}
+
+/**
+ * Predicates linking a person to their online accounts.
+ * `foaf:holdsAccount` is the deprecated FOAF name of `foaf:account`, but still found in older profiles.
+ */
+const ACCOUNT_PREDICATES = [ `${FOAF}account`, `${FOAF}holdsAccount` ];
+
+/**
+ * Classes that only indicate something is an account, without telling which kind of account.
+ */
+const GENERIC_ACCOUNT_CLASSES = [ `${FOAF}Account`, `${FOAF}OnlineAccount` ];
 
-  if (profile.profileHighlightColor !== undefined && (typeof profile.profileHighlightColor !== 'string' || !/^#[\da-f]{6}$/i.test(profile.profileHighlightColor))) {
-    errors.push('profileHighlightColor must be a valid hex color (e.g., #000000)');
+/**
+ * Extracts the online accounts of the WebID.
+ * Accounts can be blank nodes or named nodes,
+ * and can use the predicates written by this handler or those written by Mashlib/SolidOS.
+ */
+function extractAccounts(quads: Quad[], webIdNode: Term): NonNullable<ProfileData['accounts']> {
+  const accountNodes: Term[] = [];
+  for (const quad of quads) {
+    if (quad.subject.equals(webIdNode) && ACCOUNT_PREDICATES.includes(quad.predicate.value) &&
+      quad.object.termType !== 'Literal' && !accountNodes.some((node): boolean => node.equals(quad.object))) {
+      accountNodes.push(quad.object);
+    }
   }
 
-  // Validate photo (URL or base64 data URI)
-  if (profile.photo !== undefined && profile.photo !== null && profile.photo !== '') {
-    if (typeof profile.photo === 'string') {
-      const isValidUrl = isUrl(profile.photo);
-      const isBase64 = /^data:image\/(jpeg|jpg|png|gif|webp);base64,/.test(profile.photo);
-      if (!isValidUrl && !isBase64) {
-        errors.push('photo must be a valid URL or base64 data URI (data:image/...;base64,...)');
+  const accounts: NonNullable<ProfileData['accounts']> = [];
+  for (const accountNode of accountNodes) {
+    const account: Partial<NonNullable<ProfileData['accounts']>[number]> = {};
+    if (accountNode.termType === 'NamedNode') {
+      account.id = accountNode.value;
+    }
+
+    for (const quad of quads) {
+      if (!quad.subject.equals(accountNode)) {
+        continue;
+      }
+
+      const predicate = quad.predicate.value;
+      const object = quad.object;
+
+      if (predicate === `${RDF}type`) {
+        if (!GENERIC_ACCOUNT_CLASSES.includes(object.value)) {
+          // Account types of the solid namespace are stored as their local name, e.g. "GithubAccount"
+          account.type = object.value.startsWith(SOLID) ? object.value.slice(SOLID.length) : object.value;
+        }
+      } else if (predicate === `${FOAF}accountName`) {
+        account.accountName = object.value;
+      } else if (predicate === `${FOAF}accountServiceHomepage` || (predicate === `${FOAF}homepage` && !account.accountServiceHomepage)) {
+        account.accountServiceHomepage = object.value;
+      } else if (predicate === `${FOAF}icon`) {
+        account.icon = object.value;
+      } else if (predicate === `${RDFS}label` || (predicate === `${FOAF}name` && !account.label)) {
+        account.label = object.value;
       }
-    } else {
-      errors.push('photo must be a string');
     }
-  }
 
-  if (profile.homepage !== undefined && profile.homepage !== null && profile.homepage !== '' && (typeof profile.homepage !== 'string' || !isUrl(profile.homepage))) {
-    errors.push('homepage must be a valid URL');
-  }
+    // An account IRI without a description, such as <https://github.com/alice>, is its own name
+    if (!account.accountName && accountNode.termType === 'NamedNode') {
+      account.accountName = accountNode.value;
+    }
 
-  // Validate arrays
-  if (profile.knowsLanguage !== undefined && !Array.isArray(profile.knowsLanguage)) {
-    errors.push('knowsLanguage must be an array');
+    if (account.accountName) {
+      accounts.push({ ...account, type: account.type ?? 'OtherAccount', accountName: account.accountName });
+    }
   }
 
-  if (profile.skills !== undefined && !Array.isArray(profile.skills)) {
-    errors.push('skills must be an array');
-  }
+  return accounts;
+}
 
-  if (profile.accounts !== undefined && !Array.isArray(profile.accounts)) {
-    errors.push('accounts must be an array');
-  }
+/**
+ * Classes that only indicate something is an email address, without telling which kind of address.
+ */
+const GENERIC_EMAIL_CLASSES = [ `${VCARD}Email`, `${VCARD}Internet` ];
 
-  if (profile.organizations !== undefined && !Array.isArray(profile.organizations)) {
-    errors.push('organizations must be an array');
-  }
+function stripMailto(value: string): string {
+  return value.startsWith('mailto:') ? value.slice(7) : value;
+}
 
-  if (profile.knows !== undefined && !Array.isArray(profile.knows)) {
-    errors.push('knows must be an array');
-  }
+/**
+ * Extracts the contact email addresses of the WebID.
+ * Addresses can be nodes with a `vcard:value`, as written by this handler and Mashlib/SolidOS,
+ * or be linked directly as `mailto:` IRI or literal.
+ */
+function extractEmails(quads: Quad[], webIdNode: Term): NonNullable<ProfileData['emails']> {
+  const emails: NonNullable<ProfileData['emails']> = [];
+  for (const quad of quads) {
+    if (!quad.subject.equals(webIdNode) || quad.predicate.value !== `${VCARD}hasEmail`) {
+      continue;
+    }
+    const node = quad.object;
+    if (node.termType === 'Literal' || node.value.startsWith('mailto:')) {
+      emails.push({ email: stripMailto(node.value) });
+      continue;
+    }
 
-  // Validate phone number format (basic validation)
-  if (profile.phone !== undefined && profile.phone !== null && profile.phone !== '' && typeof profile.phone !== 'string') {
-    errors.push('phone must be a string');
+    const entry: Partial<NonNullable<ProfileData['emails']>[number]> = {};
+    if (node.termType === 'NamedNode') {
+      entry.id = node.value;
+    }
+    for (const emailQuad of quads) {
+      if (!emailQuad.subject.equals(node)) {
+        continue;
+      }
+      if (emailQuad.predicate.value === `${VCARD}value`) {
+        entry.email = stripMailto(emailQuad.object.value);
+      } else if (emailQuad.predicate.value === `${RDF}type` && !GENERIC_EMAIL_CLASSES.includes(emailQuad.object.value)) {
+        // Types of the vCard namespace are stored as their local name, e.g. "Work"
+        const type = emailQuad.object.value;
+        entry.type = type.startsWith(VCARD) ? type.slice(VCARD.length) : type;
+      }
+    }
+    if (entry.email) {
+      emails.push({ ...entry, email: entry.email });
+    }
   }
+  return emails;
+}
+
+/**
+ * Classes that only indicate something is a phone number, without telling which kind of number.
+ */
+const GENERIC_PHONE_CLASSES = [ `${VCARD}TelephoneType`, `${VCARD}Voice` ];
+
+/**
+ * Returns the phone number of a `tel:` URI or literal, normalized to E.164 if possible.
+ */
+function parsePhoneNumber(value: string): string {
+  return normalizePhoneNumber(value) ?? value.replace(/^tel:/iu, '');
+}
+
+/**
+ * Extracts the phone numbers of the WebID.
+ * Numbers can be nodes with a `vcard:value` and a type, as written by this handler and Mashlib/SolidOS,
+ * or be linked directly as `tel:` IRI or literal, as found in older profiles.
+ */
+function extractPhones(quads: Quad[], webIdNode: Term): NonNullable<ProfileData['phones']> {
+  const phones: NonNullable<ProfileData['phones']> = [];
+  for (const quad of quads) {
+    if (!quad.subject.equals(webIdNode) || quad.predicate.value !== `${VCARD}hasTelephone`) {
+      continue;
+    }
+    const node = quad.object;
+    if (node.termType === 'Literal' || node.value.startsWith('tel:')) {
+      phones.push({ phone: parsePhoneNumber(node.value) });
+      continue;
+    }
 
-  // Validate WebIDs in knows array
-  if (profile.knows && Array.isArray(profile.knows)) {
-    for (const webId of profile.knows) {
-      if (typeof webId !== 'string' || !isUrl(webId)) {
-        errors.push(`Invalid WebID in knows array: ${webId}`);
+    const entry: Partial<NonNullable<ProfileData['phones']>[number]> = {};
+    if (node.termType === 'NamedNode') {
+      entry.id = node.value;
+    }
+    for (const phoneQuad of quads) {
+      if (!phoneQuad.subject.equals(node)) {
+        continue;
+      }
+      if (phoneQuad.predicate.value === `${VCARD}value`) {
+        entry.phone = parsePhoneNumber(phoneQuad.object.value);
+      } else if (phoneQuad.predicate.value === `${RDF}type` && !GENERIC_PHONE_CLASSES.includes(phoneQuad.object.value)) {
+        const type = phoneQuad.object.value;
+        entry.type = type.startsWith(VCARD) ? type.slice(VCARD.length) : type;
       }
     }
+    if (entry.phone) {
+      phones.push({ ...entry, phone: entry.phone });
+    }
   }
+  return phones;
+}
+
+type AddressEntry = NonNullable<ProfileData['addresses']>[number];
+
+/**
+ * The vCard predicates of the parts of an address, with the keys in the address entries as keys.
+ */
+const ADDRESS_PREDICATES: Record<'streetAddress' | 'locality' | 'region' | 'postalCode' | 'country', string> = {
+  streetAddress: `${VCARD}street-address`,
+  locality: `${VCARD}locality`,
+  region: `${VCARD}region`,
+  postalCode: `${VCARD}postal-code`,
+  country: `${VCARD}country-name`,
+};
 
-  return { valid: errors.length === 0, errors };
+/**
+ * Extracts the postal addresses of the WebID, stored as nodes with the vCard address parts, as Mashlib does.
+ * Countries are converted to their code if they can be recognized.
+ */
+function extractAddresses(quads: Quad[], webIdNode: Term): AddressEntry[] {
+  const addresses: AddressEntry[] = [];
+  const parts = Object.entries(ADDRESS_PREDICATES) as [ keyof typeof ADDRESS_PREDICATES, string ][];
+  for (const quad of quads) {
+    if (!quad.subject.equals(webIdNode) || quad.predicate.value !== `${VCARD}hasAddress` ||
+      quad.object.termType === 'Literal') {
+      continue;
+    }
+    const node = quad.object;
+    const entry: AddressEntry = node.termType === 'NamedNode' ? { id: node.value } : {};
+    for (const addressQuad of quads) {
+      if (!addressQuad.subject.equals(node)) {
+        continue;
+      }
+      const part = parts.find(([ , predicate ]): boolean => predicate === addressQuad.predicate.value)?.[0];
+      if (part) {
+        entry[part] = part === 'country' ?
+          findCountryCode(addressQuad.object.value) ?? addressQuad.object.value :
+          addressQuad.object.value;
+      } else if (addressQuad.predicate.value === `${RDF}type` && addressQuad.object.value !== `${VCARD}Address`) {
+        const type = addressQuad.object.value;
+        entry.type = type.startsWith(VCARD) ? type.slice(VCARD.length) : type;
+      }
+    }
+    if (parts.some(([ part ]): boolean => Boolean(entry[part]))) {
+      addresses.push(entry);
+    }
+  }
+  return addresses;
 }
 
 /**
- * Extracts profile data from RDF quads
+ * Extracts profile data from RDF quads.
+ * Also used to import the profile of a WebID from another server.
+ *
+ * A `foaf:mbox` is only the published login email if it is the given login email of the owner,
+ * other addresses in `foaf:mbox` are contact addresses and end up in `emails`.
+ *
+ * @param loginEmail - The login email of the account owning the WebID, if known.
  */
-function extractProfileFromQuads(quads: Quad[], webId: string): ProfileData {
+export function extractProfileFromQuads(quads: Quad[], webId: string, fields: ProfileField[], loginEmail?: string):
+ProfileData {
   const profile: ProfileData = {};
   const webIdNode = DataFactory.namedNode(webId);
+  const mailboxes: string[] = [];
 
   for (const quad of quads) {
     if (!quad.subject.equals(webIdNode)) {
@@ -186,87 +490,83 @@ function extractProfileFromQuads(quads: Quad[], webId: string): ProfileData {
     const predicate = quad.predicate.value;
     const object = quad.object;
 
-    // Style
-    if (predicate === `${SOLID}profileBackgroundColor`) {
-      profile.profileBackgroundColor = object.value;
-    } else if (predicate === `${SOLID}profileHighlightColor`) {
-      profile.profileHighlightColor = object.value;
-    }
-    // Basic info
-    else if (predicate === `${FOAF}name`) {
-      profile.name = object.value;
-    } else if (predicate === `${FOAF}nick`) {
-      profile.nickname = object.value;
-    }
-    // Email (foaf:mbox is mailto:email@example.com format)
-    else if (predicate === `${FOAF}mbox` || predicate === `${VCARD}hasEmail`) {
-      const emailValue = object.value;
-      // Extract email from mailto: URI if needed
-      if (emailValue.startsWith('mailto:')) {
-        profile.email = emailValue.slice(7);
+    // The published login email (foaf:mbox is mailto:email@example.com format)
+    if (predicate === `${FOAF}mbox`) {
+      const email = stripMailto(object.value);
+      if (loginEmail && isSameEmail(email, loginEmail)) {
+        profile.email = loginEmail;
+        profile.publishEmail = true;
       } else {
-        profile.email = emailValue;
+        mailboxes.push(email);
       }
+      continue;
     }
-    // Phone
-    else if (predicate === `${VCARD}hasTelephone`) {
-      profile.phone = object.value;
+
+    if (predicate === LIST_IN_DIRECTORY) {
+      profile.listInDirectory = object.value === 'true';
+      continue;
     }
-    // Contacts/Friends
-    else if (predicate === `${FOAF}knows`) {
-      if (!profile.knows) {
-        profile.knows = [];
+
+    // Fields of the registry
+    for (const field of fields) {
+      if (!field.predicates.includes(predicate)) {
+        continue;
       }
-      profile.knows.push(object.value);
-    }
-    // Pronouns
-    else if (predicate === `${SOLID}preferredSubjectPronoun`) {
-      profile.preferredSubjectPronoun = object.value;
-    } else if (predicate === `${SOLID}preferredObjectPronoun`) {
-      profile.preferredObjectPronoun = object.value;
-    } else if (predicate === `${SOLID}preferredRelativePronoun`) {
-      profile.preferredRelativePronoun = object.value;
-    }
-    // Photo
-    else if (predicate === `${VCARD}hasPhoto` || predicate === `${FOAF}img` || predicate === `${FOAF}depiction`) {
-      profile.photo = object.value;
-    }
-    // Homepage
-    else if (predicate === `${FOAF}homepage`) {
-      profile.homepage = object.value;
-    }
-    // Languages
-    else if (predicate === `${SCHEMA}knowsLanguage`) {
-      if (!profile.knowsLanguage) {
-        profile.knowsLanguage = [];
+      const value = field.fromTerm(object);
+      if (value !== undefined) {
+        profile[field.key] = field.addValue(profile[field.key], value);
       }
-      profile.knowsLanguage.push(object.value);
     }
-    // Skills
-    else if (predicate === `${SCHEMA}skills`) {
-      if (!profile.skills) {
-        profile.skills = [];
-      }
-      profile.skills.push(object.value);
+  }
+
+  // Extract contact email addresses, including those in foaf:mbox that are not the login email
+  const emails = extractEmails(quads, webIdNode);
+  for (const email of mailboxes) {
+    if (!emails.some((entry): boolean => isSameEmail(entry.email, email))) {
+      emails.push({ email });
     }
   }
+  if (emails.length > 0) {
+    profile.emails = emails;
+  }
+
+  // Extract phone numbers
+  const phones = extractPhones(quads, webIdNode);
+  if (phones.length > 0) {
+    profile.phones = phones;
+  }
+
+  // Extract postal addresses
+  const addresses = extractAddresses(quads, webIdNode);
+  if (addresses.length > 0) {
+    profile.addresses = addresses;
+  }
+
+  // Extract social media accounts
+  const accounts = extractAccounts(quads, webIdNode);
+  if (accounts.length > 0) {
+    profile.accounts = accounts;
+  }
 
   // Extract organizations (org:member relationships)
   // Find all role nodes that have org:member pointing to this WebID
-  const roleNodes = new Set<string>();
+  const roleNodes: Term[] = [];
   for (const quad of quads) {
-    if (quad.predicate.value === `${ORG}member` && quad.object.equals(webIdNode)) {
+    if (quad.predicate.value === `${ORG}member` && quad.object.equals(webIdNode) &&
+      !roleNodes.some((node): boolean => node.equals(quad.subject))) {
       // Quad.subject is the role node
-      roleNodes.add(quad.subject.value);
+      roleNodes.push(quad.subject);
     }
   }
 
   // For each role node, extract organization details
-  if (roleNodes.size > 0) {
+  if (roleNodes.length > 0) {
     profile.organizations = [];
-    for (const roleNodeValue of roleNodes) {
-      const orgEntry: { organization?: string; organizationName?: string; role?: string; startDate?: string; endDate?: string; description?: string; roleType?: 'CurrentRole' | 'PastRole' | 'FutureRole' } = {};
-      const roleNode = DataFactory.namedNode(roleNodeValue);
+    for (const roleNode of roleNodes) {
+      const orgEntry: NonNullable<ProfileData['organizations']>[number] = {};
+      if (roleNode.termType === 'NamedNode') {
+        orgEntry.id = roleNode.value;
+      }
 
       for (const quad of quads) {
         if (!quad.subject.equals(roleNode)) {
@@ -277,26 +577,23 @@ function extractProfileFromQuads(quads: Quad[], webId: string): ProfileData {
         const object = quad.object;
 
         if (predicate === `${ORG}organization`) {
-          // Organization can be a URI or blank node
-          if (object.termType === 'NamedNode') {
+          // Organization can be a URI, a node in this document, or a blank node
+          const orgName = quads.find((orgQuad): boolean =>
+            orgQuad.subject.equals(object) && orgQuad.predicate.value === `${SCHEMA}name`)?.object.value;
+          if (object.termType === 'NamedNode' && !isProfileNode(object, webId)) {
             orgEntry.organization = object.value;
-          } else if (object.termType === 'BlankNode') {
-            // Find the name of this organization blank node
-            for (const orgQuad of quads) {
-              if (orgQuad.subject.equals(object) && orgQuad.predicate.value === `${SCHEMA}name`) {
-                orgEntry.organizationName = orgQuad.object.value;
-                break;
-              }
-            }
+          }
+          if (orgName) {
+            orgEntry.organizationName = orgName;
           }
         } else if (predicate === `${VCARD}role`) {
-          orgEntry.role = object.value;
+          orgEntry.role = addLocalizedTerm(orgEntry.role, object);
         } else if (predicate === `${SCHEMA}startDate`) {
           orgEntry.startDate = object.value;
         } else if (predicate === `${SCHEMA}endDate`) {
           orgEntry.endDate = object.value;
         } else if (predicate === `${SCHEMA}description`) {
-          orgEntry.description = object.value;
+          orgEntry.description = addLocalizedTerm(orgEntry.description, object);
         } else if (predicate === `${RDF}type`) {
           // Check if it's a role type (CurrentRole, PastRole, FutureRole)
           const typeValue = object.value;
@@ -320,11 +617,32 @@ function extractProfileFromQuads(quads: Quad[], webId: string): ProfileData {
   return profile;
 }
 
+/**
+ * Replaces the texts that have a translation per language by the one that best matches the given languages,
+ * most preferred first, so the profile can be shown to someone without choosing a language for every value.
+ */
+export function localizeProfile(profile: ProfileData, fields: ProfileField[], languages: string[]): ProfileData {
+  const localized: ProfileData = { ...profile };
+  for (const field of fields) {
+    if (field.multilingual && localized[field.key] !== undefined) {
+      localized[field.key] = pickLanguage(localized[field.key], languages);
+    }
+  }
+  if (profile.organizations) {
+    localized.organizations = profile.organizations.map((entry): typeof entry => ({
+      ...entry,
+      role: pickLanguage(entry.role, languages),
+      description: pickLanguage(entry.description, languages),
+    }));
+  }
+  return localized;
+}
+
 /**
  * Creates an N3 patch serialization string
  * Format matches test examples exactly: <> a solid:InsertDeletePatch; solid:inserts { ... }; solid:deletes { ... }.
  */
-function createN3PatchString(deletes: Quad[], inserts: Quad[], conditions: Quad[]): string {
+export function createN3PatchString(deletes: Quad[], inserts: Quad[], conditions: Quad[]): string {
   const solid = 'http://www.w3.org/ns/solid/terms#';
   const rdf = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
 
@@ -419,121 +737,228 @@ function escapeString(str: string): string {
 }
 
 /**
- * Creates an N3 patch to update profile data
+ * Checks if the given term is a node minted by this handler in the profile document,
+ * such as a role or account entry.
  */
-function createProfilePatch(webId: string, profile: ProfileData, existingQuads: Quad[]): { deletes: Quad[]; inserts: Quad[]; conditions: Quad[] } {
+function isProfileNode(term: Term, webId: string): boolean {
+  return term.termType === 'NamedNode' && term.value !== webId &&
+    term.value.startsWith(`${getProfileDocumentUrl(webId)}#`);
+}
+
+/**
+ * Returns the identifier to use for a structured entry of the profile.
+ * An identifier received from the client is kept if it belongs to the profile document,
+ * otherwise one is derived from the contents of the entry.
+ */
+function getEntryNode(webId: string, prefix: string, id: unknown, values: unknown[]): Quad['subject'] {
+  if (typeof id === 'string' && isProfileNode(DataFactory.namedNode(id), webId)) {
+    return DataFactory.namedNode(id);
+  }
+  return DataFactory.namedNode(createStableIri(getProfileDocumentUrl(webId), prefix, values));
+}
+
+/**
+ * Returns the identifier of an address, which also determines the document the address is stored in.
+ */
+function getAddressNode(webId: string, entry: AddressEntry): Quad['subject'] {
+  return getEntryNode(webId, 'address', entry.id,
+    [ entry.type, entry.streetAddress, entry.locality, entry.region, entry.postalCode, entry.country ]);
+}
+
+/**
+ * Predicates of the WebID that are fully managed by the profile data,
+ * next to those of the fields in the registry.
+ */
+const MANAGED_PREDICATES = [
+  `${FOAF}mbox`,
+  LIST_IN_DIRECTORY,
+  `${VCARD}hasEmail`,
+  `${VCARD}hasTelephone`,
+  `${VCARD}hasAddress`,
+  ...ACCOUNT_PREDICATES,
+];
+
+/**
+ * Predicates of the WebID linking to entries of which the full description is managed by the profile data.
+ */
+const ENTRY_PREDICATES = [ `${VCARD}hasEmail`, `${VCARD}hasTelephone`, `${VCARD}hasAddress`, ...ACCOUNT_PREDICATES ];
+
+/**
+ * Predicates of the WebID storing the keys of the profile data that are not fields of the registry.
+ * Roles in organizations are linked to the WebID with `org:member` instead.
+ */
+const KEY_PREDICATES: Dict<string[]> = {
+  publishEmail: [ `${FOAF}mbox` ],
+  // Addresses in foaf:mbox that are not the login email are part of the emails
+  emails: [ `${FOAF}mbox`, `${VCARD}hasEmail` ],
+  phones: [ `${VCARD}hasTelephone` ],
+  addresses: [ `${VCARD}hasAddress` ],
+  accounts: ACCOUNT_PREDICATES,
+  listInDirectory: [ LIST_IN_DIRECTORY ],
+};
+
+/**
+ * The part of the profile quads a partial update can change:
+ * the predicates of the WebID, and if the roles in organizations are included.
+ */
+type UpdateScope = { predicates: string[]; roles: boolean };
+
+/**
+ * Determines which profile quads the keys of a partial update are stored in,
+ * including those of the fields of which the `visibility` changes.
+ */
+function getUpdateScope(update: Dict<Json>, fields: ProfileField[]): UpdateScope {
+  const fieldPredicates = Object.fromEntries(fields.map((field): [ string, string[] ] =>
+    [ field.key, field.predicates ]));
+  const visibilityPredicates = getKeyPredicates(fields);
+  const predicates = Object.keys(update).flatMap((key): string[] =>
+    KEY_PREDICATES[key] ?? fieldPredicates[key] ?? []);
+  const visibility = update.visibility;
+  if (typeof visibility === 'object' && visibility !== null && !Array.isArray(visibility)) {
+    predicates.push(...Object.keys(visibility).flatMap((key): string[] => visibilityPredicates[key] ?? []));
+  }
+  return { predicates: [ ...new Set(predicates) ], roles: 'organizations' in update };
+}
+
+/**
+ * Finds all quads in the profile document that are managed by the profile data:
+ * the managed predicates of the WebID, and the full subgraphs of its entries, such as email addresses, and roles.
+ *
+ * @param scope - Only finds the quads of these predicates and roles, if set.
+ */
+function findProfileQuads(webId: string, quads: Quad[], fields: ProfileField[], scope?: UpdateScope): Quad[] {
   const webIdNode = DataFactory.namedNode(webId);
-  const deletes: Quad[] = [];
-  const inserts: Quad[] = [];
-
-  // Properties to update
-  const properties: { predicate: string; value?: string | string[] }[] = [
-    { predicate: `${SOLID}profileBackgroundColor`, value: profile.profileBackgroundColor },
-    { predicate: `${SOLID}profileHighlightColor`, value: profile.profileHighlightColor },
-    { predicate: `${FOAF}name`, value: profile.name },
-    { predicate: `${FOAF}nick`, value: profile.nickname },
-    { predicate: `${VCARD}hasTelephone`, value: profile.phone },
-    { predicate: `${SOLID}preferredSubjectPronoun`, value: profile.preferredSubjectPronoun },
-    { predicate: `${SOLID}preferredObjectPronoun`, value: profile.preferredObjectPronoun },
-    { predicate: `${SOLID}preferredRelativePronoun`, value: profile.preferredRelativePronoun },
-    { predicate: `${VCARD}hasPhoto`, value: profile.photo },
-    { predicate: `${FOAF}homepage`, value: profile.homepage },
-    { predicate: `${SCHEMA}knowsLanguage`, value: profile.knowsLanguage },
-    { predicate: `${SCHEMA}skills`, value: profile.skills },
-    { predicate: `${FOAF}knows`, value: profile.knows },
-  ];
-
-  // Handle email separately (foaf:mbox uses mailto: URI format)
-  const emailPred = DataFactory.namedNode(`${FOAF}mbox`);
-  for (const quad of existingQuads) {
-    if (quad.subject.equals(webIdNode) && quad.predicate.equals(emailPred)) {
-      deletes.push(quad);
-    }
-  }
-  // Add email from account (if available) - email is read-only from profile data but stored in RDF
+  const managed = new Set(scope?.predicates ??
+    [ ...MANAGED_PREDICATES, ...fields.flatMap((field): string[] => field.predicates) ]);
+  const roles = scope?.roles ?? true;
+  const follow = (term: Term): boolean => term.termType === 'BlankNode' || isProfileNode(term, webId);
+  const result: Quad[] = [];
+
+  for (const quad of quads) {
+    if (quad.subject.equals(webIdNode) && managed.has(quad.predicate.value)) {
+      result.push(quad);
+      if (ENTRY_PREDICATES.includes(quad.predicate.value) && follow(quad.object)) {
+        result.push(...getSubgraph(quads, quad.object, follow));
+      }
+    }
+    if (roles && quad.predicate.value === `${ORG}member` && quad.object.equals(webIdNode) && follow(quad.subject)) {
+      const role = getSubgraph(quads, quad.subject, follow);
+      result.push(...role);
+      // The names of organizations outside of the document are copies, so they are managed as well
+      for (const roleQuad of role) {
+        if (roleQuad.predicate.value === `${ORG}organization` && !follow(roleQuad.object)) {
+          result.push(...quads.filter((orgQuad): boolean =>
+            orgQuad.subject.equals(roleQuad.object) && orgQuad.predicate.value === `${SCHEMA}name`));
+        }
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Creates the quads that describe the given profile data.
+ * Accounts, roles and plain text organizations get IRIs in the profile document
+ * so they can be found again, and removed, on the next update.
+ */
+function createProfileQuads(webId: string, profile: ProfileData, fields: ProfileField[]): Quad[] {
+  const webIdNode = DataFactory.namedNode(webId);
+  const quads: Quad[] = [];
+
+  // The login email is only set if the user chose to publish it (foaf:mbox uses mailto: URI format)
   if (profile.email) {
     const emailUri = profile.email.startsWith('mailto:') ? profile.email : `mailto:${profile.email}`;
-    inserts.push(DataFactory.quad(
+    quads.push(DataFactory.quad(
       webIdNode,
-      emailPred,
+      DataFactory.namedNode(`${FOAF}mbox`),
       DataFactory.namedNode(emailUri),
     ));
   }
 
-  // Handle contacts/friends (foaf:knows)
-  const knowsPred = DataFactory.namedNode(`${FOAF}knows`);
-  for (const quad of existingQuads) {
-    if (quad.subject.equals(webIdNode) && quad.predicate.equals(knowsPred)) {
-      deletes.push(quad);
-    }
+  // The directory can only be rebuilt from the public profile document, so this is never hidden
+  if (profile.listInDirectory) {
+    quads.push(DataFactory.quad(
+      webIdNode,
+      DataFactory.namedNode(LIST_IN_DIRECTORY),
+      DataFactory.literal('true', DataFactory.namedNode(`${XSD}boolean`)),
+    ));
   }
-  if (profile.knows) {
-    for (const webId of profile.knows) {
-      if (webId) {
-        inserts.push(DataFactory.quad(
-          webIdNode,
-          knowsPred,
-          DataFactory.namedNode(webId),
-        ));
-      }
+
+  // Fields of the registry
+  for (const field of fields) {
+    const predNode = DataFactory.namedNode(field.predicate);
+    for (const term of field.toTerms(profile[field.key])) {
+      quads.push(DataFactory.quad(webIdNode, predNode, term as Quad['object']));
     }
   }
 
-  // Delete existing values and insert new ones
-  for (const { predicate, value } of properties) {
-    const predNode = DataFactory.namedNode(predicate);
-
-    // Delete all existing triples with this predicate
-    for (const quad of existingQuads) {
-      if (quad.subject.equals(webIdNode) && quad.predicate.equals(predNode)) {
-        deletes.push(quad);
+  // Handle contact email addresses (vcard:hasEmail)
+  if (profile.emails) {
+    for (const entry of profile.emails) {
+      const emailNode = getEntryNode(webId, 'email', entry.id, [ entry.email, entry.type ]);
+      quads.push(DataFactory.quad(webIdNode, DataFactory.namedNode(`${VCARD}hasEmail`), emailNode));
+      quads.push(DataFactory.quad(emailNode, DataFactory.namedNode(`${VCARD}value`), DataFactory.namedNode(`mailto:${entry.email}`)));
+      if (entry.type) {
+        const typeUri = isUrl(entry.type) ? entry.type : `${VCARD}${entry.type}`;
+        quads.push(DataFactory.quad(emailNode, DataFactory.namedNode(`${RDF}type`), DataFactory.namedNode(typeUri)));
       }
     }
+  }
 
-    // Insert new values
-    if (value !== undefined && value !== null && value !== '') {
-      if (Array.isArray(value)) {
-        for (const val of value) {
-          if (val) {
-            inserts.push(DataFactory.quad(
-              webIdNode,
-              predNode,
-              DataFactory.namedNode(val),
-            ));
-          }
-        }
-      } else {
-        inserts.push(DataFactory.quad(
-          webIdNode,
-          predNode,
-          DataFactory.literal(value),
-        ));
+  // Handle phone numbers (vcard:hasTelephone), as typed nodes with a tel: URI like SolidOS writes them
+  if (profile.phones) {
+    for (const entry of profile.phones) {
+      const phoneNode = getEntryNode(webId, 'phone', entry.id, [ entry.phone, entry.type ]);
+      quads.push(DataFactory.quad(webIdNode, DataFactory.namedNode(`${VCARD}hasTelephone`), phoneNode));
+      quads.push(DataFactory.quad(phoneNode, DataFactory.namedNode(`${VCARD}value`), DataFactory.namedNode(toTelUri(entry.phone))));
+      if (entry.type) {
+        const typeUri = isUrl(entry.type) ? entry.type : `${VCARD}${entry.type}`;
+        quads.push(DataFactory.quad(phoneNode, DataFactory.namedNode(`${RDF}type`), DataFactory.namedNode(typeUri)));
       }
     }
   }
 
-  // Handle social media accounts (foaf:account)
-  const accountPred = DataFactory.namedNode(`${FOAF}account`);
-  for (const quad of existingQuads) {
-    if (quad.subject.equals(webIdNode) && quad.predicate.equals(accountPred)) {
-      deletes.push(quad);
+  // Handle postal addresses (vcard:hasAddress), with the country name as Mashlib stores it
+  for (const entry of profile.addresses ?? []) {
+    const addressNode = getAddressNode(webId, entry);
+    quads.push(DataFactory.quad(webIdNode, DataFactory.namedNode(`${VCARD}hasAddress`), addressNode));
+    if (entry.type) {
+      const typeUri = isUrl(entry.type) ? entry.type : `${VCARD}${entry.type}`;
+      quads.push(DataFactory.quad(addressNode, DataFactory.namedNode(`${RDF}type`), DataFactory.namedNode(typeUri)));
+    }
+    for (const [ part, predicate ] of Object.entries(ADDRESS_PREDICATES) as [ keyof typeof ADDRESS_PREDICATES, string ][]) {
+      const value = entry[part];
+      if (value) {
+        quads.push(DataFactory.quad(addressNode, DataFactory.namedNode(predicate),
+          DataFactory.literal(part === 'country' ? getCountryName(value) : value)));
+      }
     }
   }
 
+  // Handle social media accounts (foaf:account)
   if (profile.accounts) {
+    const accountPred = DataFactory.namedNode(`${FOAF}account`);
     for (const account of profile.accounts) {
-      const accountNode = DataFactory.blankNode();
-      inserts.push(DataFactory.quad(webIdNode, accountPred, accountNode));
-      inserts.push(DataFactory.quad(accountNode, DataFactory.namedNode(`${RDF}type`), DataFactory.namedNode(`${FOAF}Account`)));
-      inserts.push(DataFactory.quad(accountNode, DataFactory.namedNode(`${FOAF}accountName`), DataFactory.literal(account.accountName)));
+      const accountNode = getEntryNode(webId, 'account', account.id, [ account.type, account.accountName ]);
+      quads.push(DataFactory.quad(webIdNode, accountPred, accountNode));
+      quads.push(DataFactory.quad(accountNode, DataFactory.namedNode(`${RDF}type`), DataFactory.namedNode(`${FOAF}Account`)));
+      if (account.type) {
+        // Types such as "GithubAccount" are the account classes of the solid namespace used by SolidOS
+        const typeUri = isUrl(account.type) ? account.type : `${SOLID}${account.type}`;
+        if (!GENERIC_ACCOUNT_CLASSES.includes(typeUri)) {
+          quads.push(DataFactory.quad(accountNode, DataFactory.namedNode(`${RDF}type`), DataFactory.namedNode(typeUri)));
+        }
+      }
+      quads.push(DataFactory.quad(accountNode, DataFactory.namedNode(`${FOAF}accountName`), DataFactory.literal(account.accountName)));
       if (account.accountServiceHomepage) {
-        inserts.push(DataFactory.quad(accountNode, DataFactory.namedNode(`${FOAF}accountServiceHomepage`), DataFactory.namedNode(account.accountServiceHomepage)));
+        quads.push(DataFactory.quad(accountNode, DataFactory.namedNode(`${FOAF}accountServiceHomepage`), DataFactory.namedNode(account.accountServiceHomepage)));
       }
       if (account.icon) {
-        inserts.push(DataFactory.quad(accountNode, DataFactory.namedNode(`${FOAF}icon`), DataFactory.namedNode(account.icon)));
+        quads.push(DataFactory.quad(accountNode, DataFactory.namedNode(`${FOAF}icon`), DataFactory.namedNode(account.icon)));
       }
       if (account.label) {
-        inserts.push(DataFactory.quad(accountNode, DataFactory.namedNode(`${RDFS}label`), DataFactory.literal(account.label)));
+        quads.push(DataFactory.quad(accountNode, DataFactory.namedNode(`${RDFS}label`), DataFactory.literal(account.label)));
       }
     }
   }
@@ -542,55 +967,205 @@ function createProfilePatch(webId: string, profile: ProfileData, existingQuads:
   // Supports both URI and plain text organization names
   if (profile.organizations) {
     for (const org of profile.organizations) {
-      // Create a role node (blank node) for this membership
-      const roleNode = DataFactory.blankNode();
+      const orgValue = org.organization || org.organizationName;
+
+      // Create a role node for this membership
+      const roleNode = getEntryNode(webId, 'role', org.id,
+        [ orgValue, org.role, org.startDate, org.endDate, org.description, org.roleType ]);
 
       // Link the role to the person
-      inserts.push(DataFactory.quad(roleNode, DataFactory.namedNode(`${ORG}member`), webIdNode));
+      quads.push(DataFactory.quad(roleNode, DataFactory.namedNode(`${ORG}member`), webIdNode));
 
       // Handle organization - can be URI or name
-      const orgValue = org.organization || org.organizationName;
       if (orgValue) {
         if (isUrl(orgValue)) {
           // If it's a URI, use it as a named node
           const orgNode = DataFactory.namedNode(orgValue);
-          inserts.push(DataFactory.quad(roleNode, DataFactory.namedNode(`${ORG}organization`), orgNode));
+          quads.push(DataFactory.quad(roleNode, DataFactory.namedNode(`${ORG}organization`), orgNode));
+          // The name is copied into the profile so it can be shown without dereferencing the organization
+          if (org.organizationName) {
+            quads.push(DataFactory.quad(orgNode, DataFactory.namedNode(`${SCHEMA}name`),
+              DataFactory.literal(org.organizationName)));
+          }
         } else {
-          // If it's a plain text name, create a blank node for the organization and add the name
-          const orgNode = DataFactory.blankNode();
-          inserts.push(DataFactory.quad(roleNode, DataFactory.namedNode(`${ORG}organization`), orgNode));
-          inserts.push(DataFactory.quad(orgNode, DataFactory.namedNode(`${SCHEMA}name`), DataFactory.literal(orgValue)));
-          inserts.push(DataFactory.quad(orgNode, DataFactory.namedNode(`${RDF}type`), DataFactory.namedNode(`${SCHEMA}Organization`)));
+          // If it's a plain text name, create a node for the organization and add the name
+          const orgNode = getEntryNode(webId, 'org', undefined, [ orgValue ]);
+          quads.push(DataFactory.quad(roleNode, DataFactory.namedNode(`${ORG}organization`), orgNode));
+          quads.push(DataFactory.quad(orgNode, DataFactory.namedNode(`${SCHEMA}name`), DataFactory.literal(orgValue)));
+          quads.push(DataFactory.quad(orgNode, DataFactory.namedNode(`${RDF}type`), DataFactory.namedNode(`${SCHEMA}Organization`)));
         }
       }
 
       // Add role details
-      if (org.role) {
-        inserts.push(DataFactory.quad(roleNode, DataFactory.namedNode(`${VCARD}role`), DataFactory.literal(org.role)));
+      for (const role of toLocalizedLiterals(org.role)) {
+        quads.push(DataFactory.quad(roleNode, DataFactory.namedNode(`${VCARD}role`), role));
       }
       if (org.startDate) {
-        inserts.push(DataFactory.quad(roleNode, DataFactory.namedNode(`${SCHEMA}startDate`), DataFactory.literal(org.startDate)));
+        quads.push(DataFactory.quad(roleNode, DataFactory.namedNode(`${SCHEMA}startDate`), DataFactory.literal(org.startDate)));
       }
       if (org.endDate) {
-        inserts.push(DataFactory.quad(roleNode, DataFactory.namedNode(`${SCHEMA}endDate`), DataFactory.literal(org.endDate)));
+        quads.push(DataFactory.quad(roleNode, DataFactory.namedNode(`${SCHEMA}endDate`), DataFactory.literal(org.endDate)));
       }
-      if (org.description) {
-        inserts.push(DataFactory.quad(roleNode, DataFactory.namedNode(`${SCHEMA}description`), DataFactory.literal(org.description)));
+      for (const description of toLocalizedLiterals(org.description)) {
+        quads.push(DataFactory.quad(roleNode, DataFactory.namedNode(`${SCHEMA}description`), description));
       }
       if (org.roleType) {
         const roleTypeUri = `${SOLID}${org.roleType}`;
-        inserts.push(DataFactory.quad(roleNode, DataFactory.namedNode(`${RDF}type`), DataFactory.namedNode(roleTypeUri)));
+        quads.push(DataFactory.quad(roleNode, DataFactory.namedNode(`${RDF}type`), DataFactory.namedNode(roleTypeUri)));
       }
     }
   }
 
+  return quads;
+}
+
+/**
+ * Creates the data of an N3 patch to update a profile document.
+ * The patch only contains the difference between the quads currently describing the profile
+ * and the quads describing the new data, so an unchanged profile results in an empty patch.
+ * Removed accounts and roles have their entire subgraph deleted.
+ * The profile quads that are kept are added as conditions,
+ * so the patch fails if they were changed by someone else in the meantime.
+ *
+ * @param current - The quads of the document that are managed by the profile data.
+ * @param desired - The quads that should be in the document.
+ */
+function createProfilePatch(current: Quad[], desired: Quad[]): ProfilePatchData {
+  const { deletes, inserts } = diffQuads(current, desired);
   return {
     deletes,
     inserts,
-    conditions: [],
+    conditions: subtractQuads(current, deletes).filter((quad): boolean => !hasBlankNode(quad)),
   };
 }
 
+/**
+ * Finds the links from the WebID to the documents containing the fields that are not public.
+ */
+function findVisibilityLinks(webId: string, quads: Quad[]): Quad[] {
+  const documents = [ getVisibilityDocumentUrl(webId, 'contacts'), getVisibilityDocumentUrl(webId, 'private') ];
+  return quads.filter((quad): boolean => quad.subject.value === webId &&
+    quad.predicate.value === `${RDFS}seeAlso` && documents.includes(quad.object.value));
+}
+
+/**
+ * Determines the patch of every profile document to go from the current documents to the desired quads.
+ * The links to the documents that are not public are managed as well.
+ *
+ * @param scope - The quads a partial update changes, other quads are left as they are.
+ */
+function diffProfileDocuments(webId: string, documents: ProfileDocuments, desired: ProfileDocuments,
+  fields: ProfileField[], scope?: UpdateScope): { document: ProfileDocument; patchData: ProfilePatchData }[] {
+  return VISIBILITY_LEVELS.map((level): { document: ProfileDocument; patchData: ProfilePatchData } => {
+    const document = documents[level];
+    const current = findProfileQuads(webId, document.quads, fields, scope);
+    const wanted = scope ? findProfileQuads(webId, desired[level].quads, fields, scope) : desired[level].quads;
+    if (level === 'public') {
+      current.push(...findVisibilityLinks(webId, document.quads));
+      if (scope) {
+        wanted.push(...findVisibilityLinks(webId, desired.public.quads));
+      }
+    }
+    return { document, patchData: createProfilePatch(current, wanted) };
+  });
+}
+
+/**
+ * Generates the version token of a profile,
+ * which only changes if the quads managed by the profile data, or the documents they are stored in, change.
+ */
+function getProfileVersion(webId: string, documents: ProfileDocuments, fields: ProfileField[]): string {
+  return hashQuads(VISIBILITY_LEVELS.flatMap((level): Quad[] => {
+    // Quads that are not public get the visibility as graph so moving them results in a different version
+    const graph = level === 'public' ? DataFactory.defaultGraph() : DataFactory.namedNode(level);
+    return findProfileQuads(webId, documents[level].quads, fields)
+      .map((quad): Quad => DataFactory.quad(quad.subject, quad.predicate, quad.object, graph));
+  }));
+}
+
+/**
+ * Extracts the profile data, including the visibility of the fields, from all profile documents.
+ *
+ * @param loginEmail - The login email of the account owning the WebID, see {@link extractProfileFromQuads}.
+ */
+function extractProfile(webId: string, documents: ProfileDocuments, fields: ProfileField[], loginEmail?: string):
+ProfileData {
+  const quads = VISIBILITY_LEVELS.flatMap((level): Quad[] => documents[level].quads);
+  const profile = extractProfileFromQuads(quads, webId, fields, loginEmail);
+  const visibility = extractVisibility(webId, {
+    public: documents.public.quads,
+    contacts: documents.contacts.quads,
+    private: documents.private.quads,
+  }, getKeyPredicates(fields));
+  if (Object.keys(visibility).length > 0) {
+    profile.visibility = visibility;
+  }
+
+  // Addresses have their own visibility, determined by the document linking to them
+  for (const address of profile.addresses ?? []) {
+    const level = VISIBILITY_LEVELS.find((entry): boolean => documents[entry].quads.some((quad): boolean =>
+      quad.subject.value === webId && quad.predicate.value === `${VCARD}hasAddress` && quad.object.value === address.id));
+    if (level && level !== 'public') {
+      address.visibility = level;
+    }
+  }
+  return profile;
+}
+
+/**
+ * Keeps only the profile documents the given audience can read, the others are left empty.
+ */
+function filterDocuments(documents: ProfileDocuments, audience: Visibility): ProfileDocuments {
+  const readable = VISIBILITY_LEVELS.slice(0, VISIBILITY_LEVELS.indexOf(audience) + 1);
+  return Object.fromEntries(VISIBILITY_LEVELS.map((level): [ Visibility, ProfileDocument ] =>
+    [ level, readable.includes(level) ? documents[level] : { ...documents[level], quads: []}])) as ProfileDocuments;
+}
+
+/**
+ * Reconstructs the profile documents as they were right after the given revision,
+ * by undoing all the revisions that came after it.
+ */
+function restoreDocuments(documents: ProfileDocuments, revisions: ProfileRevision[], id: string): ProfileDocuments {
+  const index = revisions.findIndex((revision): boolean => revision.id === id);
+  if (index < 0) {
+    throw new NotFoundHttpError(`Unknown revision ${id}`);
+  }
+  return undoDocumentRevisions(documents, revisions.slice(index + 1));
+}
+
+/**
+ * Undoes the given revisions in all profile documents.
+ */
+function undoDocumentRevisions(documents: ProfileDocuments, revisions: ProfileRevision[]): ProfileDocuments {
+  return Object.fromEntries(VISIBILITY_LEVELS.map((level): [ Visibility, ProfileDocument ] => [ level, {
+    ...documents[level],
+    quads: undoRevisions(documents[level].identifier.path, documents[level].quads, revisions),
+  }])) as ProfileDocuments;
+}
+
+/**
+ * Applies the patches to all profile documents, resulting in their contents after an update.
+ */
+function applyDocumentPatches(documents: ProfileDocuments, patches: DocumentPatch[]): ProfileDocuments {
+  return Object.fromEntries(VISIBILITY_LEVELS.map((level): [ Visibility, ProfileDocument ] => {
+    const patch = patches.find((entry): boolean => entry.document === documents[level].identifier.path);
+    const quads = patch ?
+      [ ...subtractQuads(documents[level].quads, patch.deletes), ...patch.inserts ] :
+      documents[level].quads;
+    return [ level, { ...documents[level], quads }];
+  })) as ProfileDocuments;
+}
+
+/**
+ * Lists the fields that have a different value in both profiles.
+ */
+function compareProfiles(before: ProfileData, after: ProfileData): ProfileChange[] {
+  const keys = new Set([ ...Object.keys(before), ...Object.keys(after) ]);
+  return [ ...keys ]
+    .filter((key): boolean => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .map((key): ProfileChange => ({ key, before: before[key], after: after[key] }));
+}
+
 /**
  * Gets the WebID profile document URL from a WebID
  * WebIDs typically have the format: http://example.com/pod/profile/card#me
@@ -604,9 +1179,123 @@ function getProfileDocumentUrl(webId: string): string {
   return url.href;
 }
 
+export interface ProfileHandlerArgs {
+  /**
+   * Store containing the WebID profile documents.
+   */
+  resourceStore: ResourceStore;
+  /**
+   * Store to find the WebIDs linked to an account.
+   */
+  webIdStore: WebIdStore;
+  /**
+   * Store to find the login email address of an account.
+   */
+  passwordStore: PasswordStore;
+  /**
+   * Route used to generate the URLs of the profiles of the linked WebIDs.
+   */
+  webIdRoute: WebIdLinkRoute;
+  /**
+   * Registry of the simple fields of the profile and how they are stored in RDF.
+   */
+  fields: ProfileField[];
+  /**
+   * Used to verify the profile document did not change between reading and writing it.
+   */
+  eTagHandler: ETagHandler;
+  /**
+   * Stores photos that are uploaded as base64 data URIs.
+   */
+  imageService: ProfileImageService;
+  /**
+   * Used to find the ACL resources of the documents containing fields that are not public.
+   */
+  aclStrategy: AuxiliaryIdentifierStrategy;
+  /**
+   * Verifies contact email addresses before they are added to the profile.
+   */
+  emailVerificationService: EmailVerificationService;
+  /**
+   * Finds the names and photos of the contacts of the profile.
+   */
+  contactResolver: ContactResolver;
+  /**
+   * Index of the public names on this server, updated when a profile is saved.
+   */
+  contactIndex: ContactIndex;
+  /**
+   * Directory of the profiles on this server that are listed in it, updated when a profile is saved.
+   */
+  directory?: ProfileDirectory;
+  /**
+   * Records the changes made to the profile documents, so they can be reverted.
+   */
+  history: ProfileHistory;
+  /**
+   * Controlled vocabularies, used for the fields that have their namespace as `vocabulary`.
+   */
+  vocabularies?: Vocabulary[];
+  /**
+   * Registry the organizations that are only known by name are linked to.
+   * Without one, such organizations are described in the profile document itself.
+   */
+  organizationRegistry?: OrganizationRegistry;
+  /**
+   * Are told about every change of a profile, such as the webhooks of other services.
+   */
+  changeListeners?: ProfileChangeListener[];
+}
+
 /**
  * Handles the creation and updating of user profiles.
  * Stores profile data in the WebID profile document using RDF.
+ *
+ * In case multiple WebIDs are linked to the account,
+ * the profile to read or edit can be chosen by targeting the `webIdRoute` of the corresponding link,
+ * or by adding a `webId` field to the POSTed JSON.
+ * The first linked WebID is used if neither is present.
+ *
+ * POST requests replace the entire profile.
+ * PATCH requests, through the {@link PatchViewInteractionHandler}, only change the keys they contain,
+ * see {@link applyPartialUpdate}, so a single value can be changed without sending the rest of the profile.
+ *
+ * The view contains a `version` token of the profile.
+ * If that token is sent along with an update,
+ * the update is rejected with a 409 in case the profile changed in the meantime,
+ * for example because it was edited with Mashlib.
+ * The details of that error contain the current `version` and `profile`.
+ *
+ * Besides JSON, updates can be sent as `multipart/form-data` through the {@link MultipartConversionHandler},
+ * in which case the photo can be uploaded as binary part named `photo`.
+ *
+ * The `visibility` of the profile data determines where fields are stored.
+ * Public fields are stored in the WebID profile document.
+ * Fields only visible to contacts, or only to the owner, are stored in separate documents next to it,
+ * which are linked from the WebID with `rdfs:seeAlso` and have an ACL restricting who can read them.
+ * Each of the `addresses` has its own `visibility`, so a home address can be private while the work address is not.
+ *
+ * The login email of the account is only published, as `foaf:mbox`, if `publishEmail` is set.
+ * With `listInDirectory`, the public fields of the profile are added to the {@link ProfileDirectory} of the server.
+ * Other `emails` are stored as `vcard:hasEmail` entries,
+ * but only after their owner followed the link sent by the {@link EmailVerificationService}.
+ * Until then they are listed as `pendingEmails`.
+ *
+ * The view resolves the WebIDs in `knows` into `contacts` with their name and photo,
+ * flagging those that can not be reached.
+ * It also contains the `labels` of the values that are terms of a {@link Vocabulary}, such as languages.
+ * Values in the namespace of a vocabulary need to be one of its terms.
+ *
+ * Texts such as the name and the roles can have a translation per language, as a language map,
+ * which are stored as language-tagged literals.
+ * The `profile` of the view contains all translations, for editing,
+ * the `localized` profile only the ones best matching the `Accept-Language` header of the request.
+ *
+ * Every update is recorded in the {@link ProfileHistory},
+ * so the profile can be compared with, and reverted to, the version after an earlier revision.
+ * {@link previewUpdate} returns the N3 patches of an update without making it.
+ * After a change is recorded, the `changeListeners` are told about it without waiting for them,
+ * so a slow or failing listener does not hold up or break the update.
  */
 export class ProfileHandler extends JsonInteractionHandler<ProfileData> implements JsonView {
   private readonly logger = getLoggerFor(this);
@@ -614,208 +1303,819 @@ export class ProfileHandler extends JsonInteractionHandler<ProfileData> implemen
   private readonly resourceStore: ResourceStore;
   private readonly webIdStore: WebIdStore;
   private readonly passwordStore: PasswordStore;
-
-  public constructor(resourceStore: ResourceStore, webIdStore: WebIdStore, passwordStore: PasswordStore) {
+  private readonly webIdRoute: WebIdLinkRoute;
+  public readonly fields: ProfileField[];
+  private readonly eTagHandler: ETagHandler;
+  private readonly imageService: ProfileImageService;
+  private readonly aclStrategy: AuxiliaryIdentifierStrategy;
+  private readonly emailVerificationService: EmailVerificationService;
+  private readonly contactResolver: ContactResolver;
+  private readonly contactIndex: ContactIndex;
+  private readonly directory?: ProfileDirectory;
+  private readonly history: ProfileHistory;
+  private readonly vocabularies: Vocabulary[];
+  private readonly organizationRegistry?: OrganizationRegistry;
+  private readonly changeListeners: ProfileChangeListener[];
+
+  public constructor(args: ProfileHandlerArgs) {
     super();
-    this.resourceStore = resourceStore;
-    this.webIdStore = webIdStore;
-    this.passwordStore = passwordStore;
+    this.resourceStore = args.resourceStore;
+    this.webIdStore = args.webIdStore;
+    this.passwordStore = args.passwordStore;
+    this.webIdRoute = args.webIdRoute;
+    this.fields = args.fields;
+    this.eTagHandler = args.eTagHandler;
+    this.imageService = args.imageService;
+    this.aclStrategy = args.aclStrategy;
+    this.emailVerificationService = args.emailVerificationService;
+    this.contactResolver = args.contactResolver;
+    this.contactIndex = args.contactIndex;
+    this.directory = args.directory;
+    this.history = args.history;
+    this.vocabularies = args.vocabularies ?? [];
+    this.organizationRegistry = args.organizationRegistry;
+    this.changeListeners = args.changeListeners ?? [];
   }
 
-  public async getView({ accountId }: JsonInteractionHandlerInput): Promise<JsonRepresentation> {
+  public async getView({ accountId, target, json, metadata }: JsonInteractionHandlerInput):
+  Promise<JsonRepresentation> {
     assertAccountId(accountId);
 
-    // Get WebID for this account
-    const webIdLinks = await this.webIdStore.findLinks(accountId);
-    if (webIdLinks.length === 0) {
-      throw new BadRequestHttpError(
-        'No WebID linked to this account. Please create a pod first by visiting the pod creation page.',
-      );
+    const { webId, webIdLinks } = await this.findWebId(accountId, target, json);
+
+    // If the profile documents don't exist, this returns an empty profile
+    const documents = await this.readProfileDocuments(webId);
+    const profile = await this.extractOwnProfile(webId, documents);
+
+    return {
+      json: {
+        webId,
+        webIdLinks,
+        loginEmail: await this.findLoginEmail(accountId),
+        pendingEmails: await this.emailVerificationService.findPending(webId),
+        contacts: await this.contactResolver.resolve(webId, profile.knows ?? []),
+        version: getProfileVersion(webId, documents, this.fields),
+        photoThumbnail: typeof profile.photo === 'string' ? this.imageService.getThumbnailUrl(profile.photo) : undefined,
+        labels: await this.getLabels(profile),
+        profile,
+        localized: localizeProfile(profile, this.fields, getAcceptedLanguages(metadata)),
+      },
+    };
+  }
+
+  public async handle({ json: input, method, accountId, target, file }: MultipartInteractionHandlerInput):
+  Promise<JsonRepresentation<ProfileData>> {
+    assertAccountId(accountId);
+
+    if (file && file.name !== 'photo') {
+      throw new BadRequestHttpError(`Unexpected file ${file.name}, only a photo can be uploaded.`);
     }
 
-    // Use the first WebID (could be enhanced to let user choose)
-    const webId = webIdLinks[0].webId;
-    const profileDocUrl = getProfileDocumentUrl(webId);
+    const { webId, documents, previousProfile, profile, pendingEmails, newOrganizations, scope: updateScope } =
+      await this.prepareUpdate(accountId, target, input, method === 'PATCH');
+
+    // Store an uploaded photo in the pod and replace it with its URL
+    const previousPhoto = previousProfile.photo;
+    let photoUrl = profile.photo;
+    const uploaded = Boolean(file) || (typeof photoUrl === 'string' && photoUrl.startsWith('data:'));
+    let scope = updateScope;
+    if (uploaded) {
+      photoUrl = await this.imageService.upload(webId, file?.data ?? photoUrl!);
+      // A photo file changes the photo even if the JSON of a partial update does not contain the key
+      const photoPredicates = this.fields.find((field): boolean => field.key === 'photo')?.predicates ?? [];
+      scope = scope && { ...scope, predicates: [ ...new Set([ ...scope.predicates, ...photoPredicates ]) ]};
+    }
+    const profileWithPhoto: ProfileData = { ...profile, photo: photoUrl };
 
-    // Get email from account (for read-only display)
-    let email: string | undefined;
+    let patches: DocumentPatch[];
     try {
-      const passwordLogins = await this.passwordStore.findByAccount(accountId);
-      if (passwordLogins.length > 0) {
-        email = passwordLogins[0].email;
-      }
+      patches = await this.updateProfileDocuments(webId, profileWithPhoto, documents, scope);
     } catch (error: unknown) {
-      // Email not available, continue without it
-      this.logger.debug(`Could not retrieve email for account ${accountId}: ${createErrorMessage(error)}`);
+      // Don't leave the new photo behind if it is not going to be used
+      if (uploaded) {
+        await this.imageService.delete(webId, photoUrl!);
+      }
+      throw error;
     }
 
-    try {
-      // Read existing profile document
-      const profileDocId = { path: profileDocUrl };
-      const representation = await this.resourceStore.getRepresentation(
-        profileDocId,
-        { type: { [TEXT_TURTLE]: 1 }},
-      );
+    // The replaced photo is removed if it was uploaded before, and the profile no longer links to it
+    const removed = patches.some((patch): boolean =>
+      patch.deletes.some((quad): boolean => quad.object.value === previousPhoto));
+    if (typeof previousPhoto === 'string' && previousPhoto !== photoUrl && removed) {
+      await this.imageService.delete(webId, previousPhoto);
+    }
 
-      // Parse quads
-      const quads = await parseQuads(representation.data);
-      const profile = extractProfileFromQuads(quads, webId);
+    this.logger.info(`Profile updated for WebID ${webId}`);
+    for (const organization of newOrganizations) {
+      await this.organizationRegistry?.register(organization);
+    }
+    await this.recordChange(webId, documents, patches, accountId);
+    await this.updateContactIndex(webId, profileWithPhoto);
+    const newDocuments = this.createDocuments(webId, profileWithPhoto);
+    await this.updateDirectory(webId, newDocuments.public.quads);
 
-      // Override email from account if available (account email takes precedence)
-      if (email) {
-        profile.email = email;
-      }
+    // Verification links are only sent once the profile has been written
+    await this.emailVerificationService.setPending(webId, pendingEmails);
 
-      return {
-        json: {
-          webId,
-          profile,
-        },
-      };
-    } catch (error: unknown) {
-      // If profile document doesn't exist, return empty profile with email
-      if (error instanceof NotFoundHttpError) {
-        return {
-          json: {
-            webId,
-            profile: email ? { email } : {},
-          },
-        };
+    const newVersion = getProfileVersion(webId, newDocuments, this.fields);
+    return { json: { ...profileWithPhoto, pendingEmails, webId, version: newVersion }};
+  }
+
+  /**
+   * Determines the N3 patches an update would send to the profile documents, without changing anything,
+   * so the update can be checked before it is made.
+   * Documents that are rewritten because of blank nodes are shown as the Turtle that would replace them.
+   * New organizations are linked to the IRI they would get in the registry, without registering them,
+   * and photos are not uploaded, so the preview keeps the current photo in place of a data URI.
+   *
+   * @param input - The update, PATCH requests are partial updates as they are in {@link handle}.
+   */
+  public async previewUpdate({ json, method, accountId, target }: JsonInteractionHandlerInput):
+  Promise<{ webId: string; patches: ProfilePatchPreview[] }> {
+    assertAccountId(accountId);
+    const { webId, documents, previousProfile, profile, scope } =
+      await this.prepareUpdate(accountId, target, json, method === 'PATCH');
+    const uploaded = typeof profile.photo === 'string' && profile.photo.startsWith('data:');
+    const desired = this.createDocuments(webId, uploaded ? { ...profile, photo: previousProfile.photo } : profile);
+
+    const patches: ProfilePatchPreview[] = [];
+    for (const { document, patchData } of diffProfileDocuments(webId, documents, desired, this.fields, scope)) {
+      if (patchData.deletes.length === 0 && patchData.inserts.length === 0) {
+        continue;
       }
-      throw error;
+      // Documents with blank nodes are rewritten as in `updateProfileDocument`, N3 Patches can not delete those
+      if (document.metadata && patchData.deletes.some(hasBlankNode)) {
+        const quads = [ ...subtractQuads(document.quads, patchData.deletes), ...patchData.inserts ];
+        patches.push({
+          document: document.identifier.path,
+          action: 'replace',
+          patch: await readableToString(serializeQuads(quads, TEXT_TURTLE)),
+        });
+        continue;
+      }
+      patches.push({
+        document: document.identifier.path,
+        action: document.metadata ? 'patch' : 'create',
+        patch: createN3PatchString(patchData.deletes, patchData.inserts, patchData.conditions),
+      });
     }
+    return { webId, patches };
   }
 
-  public async handle({ json, accountId }: JsonInteractionHandlerInput): Promise<JsonRepresentation<ProfileData>> {
-    assertAccountId(accountId);
+  /**
+   * Validates an update and determines the profile data to store, shared by actual updates and their previews.
+   * Contact email addresses that still need to be verified are left out of the profile and returned separately.
+   *
+   * @param accountId - ID of the account doing the update.
+   * @param target - Target of the request, which can be the resource of a specific WebID link.
+   * @param input - The profile data of the request.
+   * @param partial - If the update only changes part of the profile.
+   */
+  private async prepareUpdate(accountId: string, target: ResourceIdentifier, input: unknown, partial: boolean):
+  Promise<PreparedUpdate> {
+    if (partial && (typeof input !== 'object' || input === null || Array.isArray(input))) {
+      throw new BadRequestHttpError('A partial update needs to be a JSON object.');
+    }
+    const { webId } = await this.findWebId(accountId, target, input);
+
+    // The documents are only read once, so the merge, the version check and the changes are based on the same state
+    const documents = await this.readProfileDocuments(webId);
+    const json = partial ? await this.applyPartialUpdate(webId, documents, input as Dict<Json>) : input;
 
     // Validate input
-    const validation = validateProfileData(json);
-    if (!validation.valid) {
-      throw new BadRequestHttpError(`Invalid profile data: ${validation.errors.join(', ')}`);
+    const errors = validateProfileData(json, this.fields, Object.keys(getKeyPredicates(this.fields)));
+    if (errors.length === 0) {
+      errors.push(...await validateVocabularyTerms(json as ProfileData, this.fields, this.vocabularies));
+    }
+    if (errors.length > 0) {
+      throw createValidationError(errors);
     }
 
-    const profile = json as ProfileData;
+    // The WebID selector and version are not part of the profile itself
+    const { webId: selectedWebId, version, ...profile } = json as ProfileData;
+    // The published email can only be the login email, which is added below if requested
+    delete profile.email;
 
-    // Get WebID for this account
-    const webIdLinks = await this.webIdStore.findLinks(accountId);
-    if (webIdLinks.length === 0) {
-      throw new BadRequestHttpError(
-        'No WebID linked to this account. Please create a pod first by visiting the pod creation page.',
-      );
+    const loginEmail = await this.findLoginEmail(accountId);
+
+    // Reject updates based on an outdated version of the profile
+    if (typeof version === 'string' && version !== getProfileVersion(webId, documents, this.fields)) {
+      throw await this.createConflictError(webId, documents,
+        'The profile was changed since it was loaded. Reload it before saving again.');
     }
 
-    const webId = webIdLinks[0].webId;
-    const profileDocUrl = getProfileDocumentUrl(webId);
-    const profileDocId = { path: profileDocUrl };
+    const previousProfile = await this.extractOwnProfile(webId, documents);
 
-    // Get email from account and add it to profile (read-only, but we store it in RDF)
-    let accountEmail: string | undefined;
-    try {
-      const passwordLogins = await this.passwordStore.findByAccount(accountId);
-      if (passwordLogins.length > 0) {
-        accountEmail = passwordLogins[0].email;
+    // Only the login email and the addresses that are already in the profile are trusted
+    const verified = [ ...loginEmail ? [ loginEmail ] : [], ...(previousProfile.emails ?? [])
+      .map((entry): string => entry.email) ];
+    const isVerified = (entry: { email: string }): boolean =>
+      verified.some((email): boolean => isSameEmail(email, entry.email));
+    const emails = (profile.emails ?? []).filter(isVerified);
+    const pendingEmails = (profile.emails ?? []).filter((entry): boolean => !isVerified(entry))
+      .map(({ email, type }): PendingEmail => ({ email, type }));
+
+    // Phone numbers are stored in E.164 format, the validation made sure they can be normalized
+    const phones = profile.phones?.map((entry): NonNullable<ProfileData['phones']>[number] =>
+      ({ ...entry, phone: normalizePhoneNumber(entry.phone) ?? entry.phone }));
+
+    const isPublic = (profile.visibility?.organizations ?? 'public') === 'public';
+    const { organizations, newOrganizations } = await this.linkOrganizations(profile.organizations, isPublic);
+
+    // Only the verified email addresses are stored
+    const result: ProfileData = { ...profile, emails, phones, organizations };
+    if (profile.publishEmail && loginEmail) {
+      result.email = loginEmail;
+    }
+    const scope = partial ? getUpdateScope(input as Dict<Json>, this.fields) : undefined;
+    return { webId, documents, previousProfile, profile: result, pendingEmails, newOrganizations, scope };
+  }
+
+  /**
+   * Applies a partial update to the current profile, resulting in the data of a full update.
+   * The pending email addresses are part of the current profile, so they stay pending if `emails` is not changed.
+   */
+  private async applyPartialUpdate(webId: string, documents: ProfileDocuments, json: Dict<Json>):
+  Promise<Dict<Json>> {
+    const current = await this.extractOwnProfile(webId, documents);
+    const pending = await this.emailVerificationService.findPending(webId);
+    if (pending.length > 0) {
+      current.emails = [ ...current.emails ?? [], ...pending ];
+    }
+    const { profile, errors } = applyPartialUpdate(current, json as Dict<Json>);
+    if (errors.length > 0) {
+      throw createValidationError(errors);
+    }
+    return profile;
+  }
+
+  /**
+   * Adds a contact email address to the profile of the given WebID,
+   * keeping the rest of the profile as it is.
+   * Used once the address has been verified.
+   *
+   * @param webId - WebID of the profile.
+   * @param entry - The address to add.
+   */
+  public async addContactEmail(webId: string, entry: PendingEmail): Promise<void> {
+    const documents = await this.readProfileDocuments(webId);
+    const previousProfile = await this.extractOwnProfile(webId, documents);
+    const emails = previousProfile.emails ?? [];
+    if (emails.some((existing): boolean => isSameEmail(existing.email, entry.email))) {
+      this.logger.debug(`${entry.email} is already part of the profile of ${webId}`);
+      return;
+    }
+    const patches = await this.updateProfileDocuments(webId, { ...previousProfile, emails: [ ...emails, entry ]},
+      documents);
+    await this.recordChange(webId, documents, patches);
+  }
+
+  /**
+   * Lists the recorded revisions of the profile of the WebID targeted by the request, newest first,
+   * together with the fields each of them changed.
+   *
+   * @param input - The request, which determines the WebID.
+   */
+  public async listRevisions({ accountId, target, json }: JsonInteractionHandlerInput):
+  Promise<{ webId: string; revisions: RevisionSummary[] }> {
+    assertAccountId(accountId);
+    const { webId } = await this.findWebId(accountId, target, json);
+    const revisions = await this.history.getRevisions(webId);
+
+    // Walk back through the history, undoing one revision at a time
+    const summaries: RevisionSummary[] = [];
+    let after = await this.readProfileDocuments(webId);
+    for (const revision of [ ...revisions ].reverse()) {
+      const before = undoDocumentRevisions(after, [ revision ]);
+      const changes = compareProfiles(await this.extractOwnProfile(webId, before),
+        await this.extractOwnProfile(webId, after));
+      summaries.push({
+        id: revision.id,
+        date: revision.date,
+        accountId: revision.accountId,
+        keys: changes.map((change): string => change.key),
+      });
+      after = before;
+    }
+    return { webId, revisions: summaries };
+  }
+
+  /**
+   * Compares the profile as it was right after two revisions.
+   *
+   * @param input - The request, which determines the WebID.
+   * @param from - ID of the earlier revision.
+   * @param to - ID of the later revision, the current profile is used if not set.
+   */
+  public async compareRevisions({ accountId, target, json }: JsonInteractionHandlerInput, from: string, to?: string):
+  Promise<{ webId: string; changes: ProfileChange[] }> {
+    assertAccountId(accountId);
+    const { webId } = await this.findWebId(accountId, target, json);
+    const documents = await this.readProfileDocuments(webId);
+    const revisions = await this.history.getRevisions(webId);
+
+    const before = await this.extractOwnProfile(webId, restoreDocuments(documents, revisions, from));
+    const after = await this.extractOwnProfile(webId, to ? restoreDocuments(documents, revisions, to) : documents);
+    return { webId, changes: compareProfiles(before, after) };
+  }
+
+  /**
+   * Restores the profile as it was right after the given revision,
+   * by applying the inverse of the patches of all later revisions.
+   * The revert itself is recorded as a new revision, so it can be undone as well.
+   * Uploaded photos that were replaced in the meantime have been removed, so the current photo is kept then.
+   *
+   * @param input - The request, which determines the WebID.
+   * @param id - ID of the revision to go back to.
+   */
+  public async revert(input: JsonInteractionHandlerInput, id: string):
+  Promise<{ webId: string; revision?: ProfileRevision; version: string; profile: ProfileData }> {
+    const { accountId, target, json } = input;
+    assertAccountId(accountId);
+    const { webId } = await this.findWebId(accountId, target, json);
+    const documents = await this.readProfileDocuments(webId);
+    const revisions = await this.history.getRevisions(webId);
+
+    const profile = await this.extractOwnProfile(webId, restoreDocuments(documents, revisions, id));
+    // Uploaded photos that have been removed since are not restored, the current photo is kept instead
+    if (typeof profile.photo === 'string' && await this.imageService.isUploadedImage(webId, profile.photo) &&
+      !await this.resourceStore.hasResource({ path: profile.photo })) {
+      this.logger.debug(`Not restoring photo ${profile.photo} of ${webId} as it no longer exists`);
+      profile.photo = extractProfile(webId, documents, this.fields).photo;
+    }
+    const patches = await this.updateProfileDocuments(webId, profile, documents);
+    const revision = await this.recordChange(webId, documents, patches, accountId);
+    this.logger.info(`Reverted the profile of ${webId} to revision ${id}`);
+    await this.updateContactIndex(webId, profile);
+    const newDocuments = this.createDocuments(webId, profile);
+    await this.updateDirectory(webId, newDocuments.public.quads);
+
+    const version = getProfileVersion(webId, newDocuments, this.fields);
+    return { webId, revision, version, profile };
+  }
+
+  /**
+   * Reads the full profile of the WebID targeted by the request, with its version,
+   * without resolving the contacts and everything else the view adds.
+   *
+   * @param input - The request, which determines the WebID.
+   */
+  public async readOwnProfile({ accountId, target, json }: JsonInteractionHandlerInput):
+  Promise<{ webId: string; version: string; profile: ProfileData }> {
+    assertAccountId(accountId);
+    const { webId } = await this.findWebId(accountId, target, json);
+    const documents = await this.readProfileDocuments(webId);
+    return {
+      webId,
+      version: getProfileVersion(webId, documents, this.fields),
+      profile: await this.extractOwnProfile(webId, documents),
+    };
+  }
+
+  /**
+   * Reads the profile of the WebID targeted by the request, as the view does,
+   * but only from the documents the given audience can read.
+   * Fields that are hidden from the audience are never read, so they can not end up in the result.
+   *
+   * @param input - The request, which determines the WebID.
+   * @param audience - `public` only reads public fields, `contacts` also those visible to contacts.
+   */
+  public async readVisibleProfile({ accountId, target, json }: JsonInteractionHandlerInput, audience: Visibility):
+  Promise<{ webId: string; profile: ProfileData; quads: Quad[] }> {
+    assertAccountId(accountId);
+    const { webId } = await this.findWebId(accountId, target, json);
+
+    const quads: Quad[] = [];
+    for (const level of VISIBILITY_LEVELS.slice(0, VISIBILITY_LEVELS.indexOf(audience) + 1)) {
+      const document = await this.readProfileDocument({ path: getVisibilityDocumentUrl(webId, level) });
+      quads.push(...document.quads);
+    }
+    const loginEmail = await this.findPublishedLoginEmail(webId, quads);
+    return { webId, profile: extractProfileFromQuads(quads, webId, this.fields, loginEmail), quads };
+  }
+
+  /**
+   * Reads the profile of a WebID from its WebID profile document, so only the public fields, as anyone can see it.
+   *
+   * @param webId - WebID of the profile.
+   */
+  public async readPublicProfile(webId: string): Promise<ProfileData> {
+    const { quads } = await this.readProfileDocument({ path: getProfileDocumentUrl(webId) });
+    return extractProfileFromQuads(quads, webId, this.fields);
+  }
+
+  /**
+   * Links the organizations that are only known by name to the organization with that name in the registry.
+   * Organizations that are not registered yet are returned as `newOrganizations`,
+   * to be registered once the profile linking to them is saved.
+   * Organizations of the registry get their registered name.
+   *
+   * @param organizations - The organizations of the profile.
+   * @param isPublic - If the organizations of the profile are public.
+   * Otherwise new organizations are not registered, as the registry would reveal them,
+   * and they are described in the profile document instead.
+   */
+  private async linkOrganizations(organizations: ProfileData['organizations'], isPublic: boolean):
+  Promise<{ organizations: ProfileData['organizations']; newOrganizations: RegisteredOrganization[] }> {
+    const newOrganizations: RegisteredOrganization[] = [];
+    if (!this.organizationRegistry || !organizations) {
+      return { organizations, newOrganizations };
+    }
+    const result: NonNullable<ProfileData['organizations']> = [];
+    for (const { organizationHomepage, organizationLogo, ...entry } of organizations) {
+      const name = entry.organization && !isUrl(entry.organization) ? entry.organization : entry.organizationName;
+      if (entry.organization && isUrl(entry.organization)) {
+        const registered = await this.organizationRegistry.get(entry.organization);
+        result.push(registered ? { ...entry, organizationName: registered.name } : entry);
+      } else if (name) {
+        const registered = await this.organizationRegistry.prepare(name, organizationHomepage, organizationLogo);
+        const isNew = !await this.organizationRegistry.get(registered.id);
+        if (isNew && !isPublic) {
+          result.push(entry);
+          continue;
+        }
+        if (isNew && !newOrganizations.some((organization): boolean => organization.id === registered.id)) {
+          newOrganizations.push(registered);
+        }
+        result.push({ ...entry, organization: registered.id, organizationName: registered.name });
+      } else {
+        result.push(entry);
       }
-    } catch (error: unknown) {
-      this.logger.debug(`Could not retrieve email for account ${accountId}: ${createErrorMessage(error)}`);
     }
+    return { organizations: result, newOrganizations };
+  }
 
-    // Handle image upload if photo is base64
-    let photoUrl = profile.photo;
-    if (profile.photo && /^data:image\/([^;]+);base64,/.test(profile.photo)) {
-      const match = /^data:image\/([^;]+);base64,(.+)$/.exec(profile.photo);
-      if (match) {
-        const [ , format, base64Data ] = match;
-        const imageBuffer = Buffer.from(base64Data, 'base64');
-
-        // Determine content type
-        const contentTypeMap: Record<string, string> = {
-          jpeg: 'image/jpeg',
-          jpg: 'image/jpeg',
-          png: 'image/png',
-          gif: 'image/gif',
-          webp: 'image/webp',
-        };
-        const contentType = contentTypeMap[format.toLowerCase()] || 'image/jpeg';
-
-        // Generate image URL in the pod (store in profile/images/ folder)
-        // Extract pod base URL from WebID (e.g., http://localhost:3000/pod/profile/card#me -> http://localhost:3000/pod/)
-        const webIdUrl = new URL(webId);
-        const pathParts = webIdUrl.pathname.split('/profile');
-        const podBaseUrl = `${webIdUrl.origin}${pathParts[0]}`;
-        const imageId = v4();
-        const imagePath = `${podBaseUrl}/profile/images/${imageId}.${format}`;
-        const imageIdentifier = { path: imagePath };
-
-        // Store the image
-        const imageMetadata = new RepresentationMetadata(imageIdentifier, contentType);
-        const imageData = guardedStreamFrom(imageBuffer);
-        const imageRepresentation = new BasicRepresentation(imageData, imageMetadata, contentType, true);
-
-        await this.resourceStore.setRepresentation(imageIdentifier, imageRepresentation);
-        photoUrl = imagePath;
-
-        this.logger.debug(`Uploaded profile image to ${imagePath}`);
-      }
-    }
-
-    // Update profile with the processed photo URL and add email from account
-    const profileWithPhoto = { ...profile, photo: photoUrl };
-    if (accountEmail) {
-      profileWithPhoto.email = accountEmail;
-    }
-
-    // Read existing profile document to get current quads
-    let existingQuads: Quad[] = [];
-    let documentExists = false;
-    try {
-      const representation = await this.resourceStore.getRepresentation(
-        profileDocId,
-        { type: { [TEXT_TURTLE]: 1 }},
-      );
-      existingQuads = await parseQuads(representation.data);
-      documentExists = true;
-    } catch (error: unknown) {
-      // If document doesn't exist, we'll create it
-      if (!(error instanceof NotFoundHttpError)) {
-        throw error;
+  /**
+   * Returns the vocabulary of the field with the given key, if it has one.
+   */
+  public getVocabulary(key: string): Vocabulary | undefined {
+    const field = this.fields.find((entry): boolean => entry.key === key);
+    return field?.vocabulary ?
+      this.vocabularies.find((vocabulary): boolean => vocabulary.namespace === field.vocabulary) :
+      undefined;
+  }
+
+  /**
+   * Finds the labels of the values of the profile that are terms of a vocabulary, with the values as keys,
+   * so they can be shown instead of their URI.
+   */
+  public async getLabels(profile: ProfileData): Promise<Dict<string>> {
+    const labels: Dict<string> = {};
+    for (const field of this.fields) {
+      const vocabulary = this.getVocabulary(field.key);
+      const value = profile[field.key];
+      if (!vocabulary || value === undefined) {
+        continue;
+      }
+      for (const entry of Array.isArray(value) ? value : [ value ]) {
+        const term = typeof entry === 'string' ? await vocabulary.getTerm(entry) : undefined;
+        if (term) {
+          labels[term.uri] = term.label;
+        }
       }
     }
+    return labels;
+  }
 
-    if (documentExists) {
-      // Create N3 patch for existing document
-      const patchData = createProfilePatch(webId, profileWithPhoto, existingQuads);
+  /**
+   * Generates the quads of each of the profile documents for the given profile data.
+   * The WebID profile document also links to the other documents that are not empty.
+   */
+  private createDocuments(webId: string, profile: ProfileData): ProfileDocuments {
+    const addressVisibility = Object.fromEntries((profile.addresses ?? [])
+      .filter((entry): boolean => Boolean(entry.visibility))
+      .map((entry): [ string, Visibility ] => [ getAddressNode(webId, entry).value, entry.visibility! ]));
+    const quads = splitByVisibility(webId, createProfileQuads(webId, profile, this.fields), profile.visibility ?? {},
+      getKeyPredicates(this.fields), addressVisibility);
+    for (const level of [ 'contacts', 'private' ] as const) {
+      if (quads[level].length > 0) {
+        quads.public.push(DataFactory.quad(DataFactory.namedNode(webId), DataFactory.namedNode(`${RDFS}seeAlso`),
+          DataFactory.namedNode(getVisibilityDocumentUrl(webId, level))));
+      }
+    }
+    return Object.fromEntries(VISIBILITY_LEVELS.map((level): [ Visibility, ProfileDocument ] => [ level, {
+      identifier: { path: getVisibilityDocumentUrl(webId, level) },
+      quads: quads[level],
+    }])) as ProfileDocuments;
+  }
+
+  /**
+   * Writes the profile data to the profile documents.
+   * The ACLs of the documents that are not public are written before the documents themselves,
+   * so their contents are never exposed.
+   *
+   * @param webId - WebID of the profile.
+   * @param profile - The new profile data.
+   * @param documents - The profile documents before the update.
+   * @param scope - The quads a partial update changes, all profile quads are updated if not set.
+   *
+   * @returns The changes that were made to each document.
+   */
+  private async updateProfileDocuments(webId: string, profile: ProfileData, documents: ProfileDocuments,
+    scope?: UpdateScope): Promise<DocumentPatch[]> {
+    const desired = this.createDocuments(webId, profile);
+
+    // Contacts need to be able to read the contacts document,
+    // which is checked on every save in case the ACL got out of sync with the contacts
+    const contacts = (profile.knows ?? []).filter((contact): boolean => contact.length > 0);
+    if (desired.contacts.quads.length > 0 || documents.contacts.metadata) {
+      await this.writeAcl(webId, documents.contacts.identifier, contacts);
+    }
+    if (desired.private.quads.length > 0 && !documents.private.metadata) {
+      await this.writeAcl(webId, documents.private.identifier, []);
+    }
+
+    const patches: DocumentPatch[] = [];
+    for (const { document, patchData } of diffProfileDocuments(webId, documents, desired, this.fields, scope)) {
+      patches.push(await this.updateProfileDocument(webId, documents, document, patchData));
+    }
+    return patches;
+  }
+
+  /**
+   * Writes the changes to a single profile document,
+   * either by patching the existing document or by creating a new one.
+   *
+   * @param webId - WebID of the profile.
+   * @param documents - All the profile documents, used in case of conflicts.
+   * @param document - The document to update.
+   * @param patchData - The changes to make to the document.
+   *
+   * @returns The quads that were deleted from and inserted into the document.
+   */
+  private async updateProfileDocument(webId: string, documents: ProfileDocuments, document: ProfileDocument,
+    patchData: ProfilePatchData): Promise<DocumentPatch> {
+    const { identifier, metadata: existingMetadata } = document;
+
+    if (patchData.deletes.length === 0 && patchData.inserts.length === 0) {
+      this.logger.debug(`No profile changes in ${identifier.path}`);
+    } else if (!existingMetadata) {
+      // Create new document with initial profile data
+      const initialQuads: Quad[] = [];
+      if (identifier.path === getProfileDocumentUrl(webId)) {
+        // Basic profile structure
+        initialQuads.push(DataFactory.quad(
+          DataFactory.namedNode(webId),
+          DataFactory.namedNode(`${RDF}type`),
+          DataFactory.namedNode(`${FOAF}Person`),
+        ));
+      }
+      initialQuads.push(...patchData.inserts);
+
+      // Create representation with initial quads
+      const metadata = new RepresentationMetadata(identifier, TEXT_TURTLE);
+      const data = serializeQuads(initialQuads, TEXT_TURTLE);
+      const representation = new BasicRepresentation(data, metadata, TEXT_TURTLE);
+
+      await this.writeProfile(webId, documents, async(conditions): Promise<unknown> =>
+        this.resourceStore.setRepresentation(identifier, representation, conditions));
+    } else if (patchData.deletes.some(hasBlankNode)) {
+      // N3 Patches can not delete blank nodes, which older versions used for accounts and roles.
+      // These documents are rewritten once, after which all entries have an IRI.
+      this.logger.info(`Replacing blank nodes in profile document ${identifier.path}`);
+      const quads = [ ...subtractQuads(document.quads, patchData.deletes), ...patchData.inserts ];
+      const metadata = new RepresentationMetadata(identifier, TEXT_TURTLE);
+      const representation = new BasicRepresentation(serializeQuads(quads, TEXT_TURTLE), metadata, TEXT_TURTLE);
+      await this.writeProfile(webId, documents, async(conditions): Promise<unknown> =>
+        this.resourceStore.setRepresentation(identifier, representation, conditions), existingMetadata);
+    } else {
       const n3PatchString = createN3PatchString(patchData.deletes, patchData.inserts, patchData.conditions);
       const patch: N3Patch = {
         ...patchData,
         binary: true,
         data: guardedStreamFrom(n3PatchString),
-        metadata: new RepresentationMetadata(profileDocId, TEXT_N3),
-        isEmpty: patchData.deletes.length === 0 && patchData.inserts.length === 0,
+        metadata: new RepresentationMetadata(identifier, TEXT_N3),
+        isEmpty: false,
       };
-      await this.resourceStore.modifyResource(profileDocId, patch);
-    } else {
-      // Create new document with initial profile data
-      const webIdNode = DataFactory.namedNode(webId);
-      const initialQuads: Quad[] = [
-        // Basic profile structure
-        DataFactory.quad(webIdNode, DataFactory.namedNode(`${RDF}type`), DataFactory.namedNode(`${FOAF}Person`)),
-      ];
+      await this.writeProfile(webId, documents, async(conditions): Promise<unknown> =>
+        this.resourceStore.modifyResource(identifier, patch, conditions), existingMetadata);
+    }
+    return { document: identifier.path, deletes: patchData.deletes, inserts: patchData.inserts };
+  }
 
-      // Add profile data as quads
-      const patchData = createProfilePatch(webId, profileWithPhoto, []);
-      initialQuads.push(...patchData.inserts);
+  /**
+   * Writes the ACL of a profile document that is not public,
+   * unless the stored ACL already contains exactly these authorizations.
+   *
+   * @param webId - WebID of the owner of the profile.
+   * @param identifier - Identifier of the document.
+   * @param readers - WebIDs, next to the owner, that can read the document.
+   */
+  private async writeAcl(webId: string, identifier: ResourceIdentifier, readers: string[]): Promise<void> {
+    const aclIdentifier = this.aclStrategy.getAuxiliaryIdentifier(identifier);
+    const quads = createAclQuads(aclIdentifier.path, identifier.path, webId, readers);
+    const current = await this.readProfileDocument(aclIdentifier);
+    if (current.metadata && hashQuads(current.quads) === hashQuads(quads)) {
+      return;
+    }
+    await this.resourceStore.setRepresentation(aclIdentifier,
+      new BasicRepresentation(serializeQuads(quads, TEXT_TURTLE), aclIdentifier, TEXT_TURTLE));
+    this.logger.debug(`Updated ACL ${aclIdentifier.path}`);
+  }
 
-      // Create representation with initial quads
-      const metadata = new RepresentationMetadata(profileDocId, TEXT_TURTLE);
-      const data = serializeQuads(initialQuads, TEXT_TURTLE);
-      const representation = new BasicRepresentation(data, metadata, TEXT_TURTLE);
+  /**
+   * Reads all the documents containing the profile of the given WebID.
+   */
+  private async readProfileDocuments(webId: string): Promise<ProfileDocuments> {
+    const documents: Partial<ProfileDocuments> = {};
+    for (const level of VISIBILITY_LEVELS) {
+      documents[level] = await this.readProfileDocument({ path: getVisibilityDocumentUrl(webId, level) });
+    }
+    return documents as ProfileDocuments;
+  }
 
-      await this.resourceStore.setRepresentation(profileDocId, representation);
+  /**
+   * Reads the quads of a profile document.
+   * The metadata is undefined if the document does not exist yet.
+   */
+  private async readProfileDocument(identifier: ResourceIdentifier): Promise<ProfileDocument> {
+    try {
+      const representation = await this.resourceStore.getRepresentation(
+        identifier,
+        { type: { [TEXT_TURTLE]: 1 }},
+      );
+      return { identifier, quads: await parseQuads(representation.data), metadata: representation.metadata };
+    } catch (error: unknown) {
+      if (NotFoundHttpError.isInstance(error)) {
+        return { identifier, quads: []};
+      }
+      throw error;
     }
+  }
 
-    this.logger.info(`Profile updated for WebID ${webId}`);
+  /**
+   * Performs a write on a profile document,
+   * with conditions to make sure the document was not changed since it was read.
+   * In case the store rejects the write because of a concurrent change,
+   * a 409 is thrown containing the current state of the profile.
+   *
+   * @param webId - WebID of the profile.
+   * @param documents - The profile documents the write is based on.
+   * @param write - Function performing the write with the given conditions.
+   * @param metadata - Metadata of the document when it was read, undefined if it did not exist.
+   */
+  private async writeProfile(webId: string, documents: ProfileDocuments,
+    write: (conditions: Conditions) => Promise<unknown>, metadata?: RepresentationMetadata): Promise<void> {
+    const eTag = metadata && this.eTagHandler.getETag(metadata);
+    const conditions = new BasicConditions(this.eTagHandler,
+      metadata ? { matchesETag: eTag ? [ eTag ] : undefined } : { notMatchesETag: [ '*' ]});
+    try {
+      await write(conditions);
+    } catch (error: unknown) {
+      if (!PreconditionFailedHttpError.isInstance(error) && !ConflictHttpError.isInstance(error)) {
+        throw error;
+      }
+      this.logger.warn(`Concurrent change of the profile of ${webId}: ${createErrorMessage(error)}`);
+      throw await this.createConflictError(webId, await this.readProfileDocuments(webId),
+        'The profile was changed while saving. Reload it before saving again.', error);
+    }
+  }
+
+  /**
+   * Creates a 409 error containing the current state of the profile in its details.
+   */
+  private async createConflictError(webId: string, documents: ProfileDocuments, message: string, cause?: unknown):
+  Promise<ConflictHttpError> {
+    const metadata = errorTermsToMetadata({
+      version: getProfileVersion(webId, documents, this.fields),
+      profile: JSON.stringify(await this.extractOwnProfile(webId, documents)),
+    });
+    return new ConflictHttpError(message, { cause, metadata });
+  }
+
+  /**
+   * Records the patches in the history and tells the change listeners which fields they changed.
+   * The listeners are not awaited, errors are only logged.
+   *
+   * @param webId - WebID of the profile.
+   * @param documents - The profile documents before the patches were applied.
+   * @param patches - The changes that were applied.
+   * @param accountId - Account making the change.
+   */
+  private async recordChange(webId: string, documents: ProfileDocuments, patches: DocumentPatch[],
+    accountId?: string): Promise<ProfileRevision | undefined> {
+    const revision = await this.history.record(webId, patches, accountId);
+    if (!revision || this.changeListeners.length === 0) {
+      return revision;
+    }
+    const after = applyDocumentPatches(documents, patches);
+    const visibleKeys: Partial<Record<Visibility, string[]>> = {};
+    for (const audience of VISIBILITY_LEVELS) {
+      const changes = compareProfiles(await this.extractOwnProfile(webId, filterDocuments(documents, audience)),
+        await this.extractOwnProfile(webId, filterDocuments(after, audience)));
+      visibleKeys[audience] = changes.map((change): string => change.key);
+    }
+    const event: ProfileChangeEvent = {
+      webId,
+      keys: visibleKeys.private!,
+      visibleKeys: visibleKeys as Record<Visibility, string[]>,
+      revision,
+    };
+    for (const listener of this.changeListeners) {
+      listener.handleSafe(event).catch((error: unknown): void => {
+        this.logger.error(`Could not report the change of the profile of ${webId}: ${createErrorMessage(error)}`);
+      });
+    }
+    return revision;
+  }
+
+  /**
+   * Updates the entry of the WebID in the contact index.
+   * Only public values can be found by other users.
+   */
+  private async updateContactIndex(webId: string, profile: ProfileData): Promise<void> {
+    const isPublic = (key: string): boolean => (profile.visibility?.[key] ?? 'public') === 'public';
+    await this.contactIndex.update(webId, isPublic('name') ? pickLanguage(profile.name, []) : undefined,
+      isPublic('photo') ? profile.photo : undefined);
+  }
+
+  /**
+   * Updates the entry of the WebID in the directory, based on the quads of the WebID profile document,
+   * so it is indexed in the same way as when the directory is rebuilt.
+   */
+  private async updateDirectory(webId: string, quads: Quad[]): Promise<void> {
+    if (this.directory) {
+      const profile = extractProfileFromQuads(quads, webId, this.fields);
+      await this.directory.update(webId, profile, await this.getLabels(profile));
+    }
+  }
+
+  /**
+   * Extracts the profile data from the profile documents of a WebID on this server,
+   * recognizing the published login email of its owner.
+   */
+  private async extractOwnProfile(webId: string, documents: ProfileDocuments): Promise<ProfileData> {
+    const quads = VISIBILITY_LEVELS.flatMap((level): Quad[] => documents[level].quads);
+    return extractProfile(webId, documents, this.fields, await this.findPublishedLoginEmail(webId, quads));
+  }
+
+  /**
+   * Returns the address in `foaf:mbox` of the profile that is the login email of an account the WebID is linked to,
+   * if there is one.
+   */
+  private async findPublishedLoginEmail(webId: string, quads: Quad[]): Promise<string | undefined> {
+    const mailboxes = quads.filter((quad): boolean => quad.subject.value === webId && quad.predicate.value === `${FOAF}mbox`)
+      .map((quad): string => stripMailto(quad.object.value));
+    for (const email of mailboxes) {
+      const login = await this.passwordStore.findByEmail(email);
+      if (login && await this.webIdStore.isLinked(webId, login.accountId)) {
+        return email;
+      }
+    }
+  }
+
+  /**
+   * Returns the email address the account uses to log in, if there is one.
+   */
+  private async findLoginEmail(accountId: string): Promise<string | undefined> {
+    try {
+      const passwordLogins = await this.passwordStore.findByAccount(accountId);
+      return passwordLogins[0]?.email;
+    } catch (error: unknown) {
+      this.logger.debug(`Could not retrieve email for account ${accountId}: ${createErrorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Determines which WebID profile is targeted by the request,
+   * and returns it together with the resource URLs of all WebIDs linked to the account.
+   * Throws an error if the selected WebID does not belong to the account.
+   *
+   * @param accountId - ID of the account doing the request.
+   * @param target - Target of the request, which can be the resource of a specific WebID link.
+   * @param json - Request body, which can contain a `webId` field.
+   */
+  private async findWebId(accountId: string, target: ResourceIdentifier, json: unknown):
+  Promise<{ webId: string; webIdLinks: Record<string, string> }> {
+    const links = await this.webIdStore.findLinks(accountId);
+    if (links.length === 0) {
+      throw new BadRequestHttpError(
+        'No WebID linked to this account. Please create a pod first by visiting the pod creation page.',
+      );
+    }
+
+    const webIdLinks: Record<string, string> = {};
+    for (const { id, webId } of links) {
+      webIdLinks[webId] = this.webIdRoute.getPath({ accountId, webIdLink: id });
+    }
+
+    // Targeting the resource of a specific link
+    const match = this.webIdRoute.matchPath(target.path);
+    if (match) {
+      const link = await this.webIdStore.get(match.webIdLink);
+      verifyAccountId(accountId, link?.accountId);
+      return { webId: link!.webId, webIdLinks };
+    }
+
+    const selected = (json as ProfileData | undefined)?.webId;
+    if (typeof selected === 'string' && selected.length > 0) {
+      if (!links.some((link): boolean => link.webId === selected)) {
+        this.logger.warn(`Account ${accountId} tried to access the profile of unlinked WebID ${selected}`);
+        throw new ForbiddenHttpError(`${selected} is not linked to this account.`);
+      }
+      return { webId: selected, webIdLinks };
+    }
 
-    return { json: { ...profile, photo: photoUrl }};
+    return { webId: links[0].webId, webIdLinks };
   }
 }
@@ -0,0 +1,57 @@
+/**
+ * The ISO 3166-1 alpha-2 codes of all countries and territories.
+ */
+export const COUNTRY_CODES = (
+  'AD AE AF AG AI AL AM AO AQ AR AS AT AU AW AX AZ BA BB BD BE BF BG BH BI BJ BL BM BN BO BQ BR BS BT BV BW BY ' +
+  'BZ CA CC CD CF CG CH CI CK CL CM CN CO CR CU CV CW CX CY CZ DE DJ DK DM DO DZ EC EE EG EH ER ES ET FI FJ FK ' +
+  'FM FO FR GA GB GD GE GF GG GH GI GL GM GN GP GQ GR GS GT GU GW GY HK HM HN HR HT HU ID IE IL IM IN IO IQ IR ' +
+  'IS IT JE JM JO JP KE KG KH KI KM KN KP KR KW KY KZ LA LB LC LI LK LR LS LT LU LV LY MA MC MD ME MF MG MH MK ' +
+  'ML MM MN MO MP MQ MR MS MT MU MV MW MX MY MZ NA NC NE NF NG NI NL NO NP NR NU NZ OM PA PE PF PG PH PK PL PM ' +
+  'PN PR PS PT PW PY QA RE RO RS RU RW SA SB SC SD SE SG SH SI SJ SK SL SM SN SO SR SS ST SV SX SY SZ TC TD TF ' +
+  'TG TH TJ TK TL TM TN TO TR TT TV TW TZ UA UG UM US UY UZ VA VC VE VG VI VN VU WF WS YE YT ZA ZM ZW'
+).split(' ');
+
+/**
+ * Common names that differ from the English names of the codes.
+ */
+const COUNTRY_ALIASES: Record<string, string> = {
+  uk: 'GB',
+  'great britain': 'GB',
+  usa: 'US',
+  'united states of america': 'US',
+  holland: 'NL',
+};
+
+const countryNames = new Intl.DisplayNames([ 'en' ], { type: 'region' });
+
+/**
+ * Makes country names comparable by ignoring case, diacritics, punctuation and `&` versus `and`.
+ */
+function normalizeName(name: string): string {
+  return name.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().replace(/&/gu, 'and')
+    .replace(/[^\p{L}\d ]/gu, ' ').replace(/\s+/gu, ' ').trim();
+}
+
+const CODES_BY_NAME = new Map<string, string>([
+  ...COUNTRY_CODES.map((code): [ string, string ] => [ normalizeName(countryNames.of(code) ?? code), code ]),
+  ...Object.entries(COUNTRY_ALIASES),
+]);
+
+export function isCountryCode(value: unknown): value is string {
+  return typeof value === 'string' && COUNTRY_CODES.includes(value);
+}
+
+/**
+ * Returns the English name of a country code, which is how Mashlib stores the `vcard:country-name`.
+ */
+export function getCountryName(code: string): string {
+  return isCountryCode(code) ? countryNames.of(code) ?? code : code;
+}
+
+/**
+ * Finds the code of a country from its code or English name, as found in existing profiles.
+ */
+export function findCountryCode(value: string): string | undefined {
+  const code = value.trim().toUpperCase();
+  return isCountryCode(code) ? code : CODES_BY_NAME.get(normalizeName(value));
+}
@@ -0,0 +1,60 @@
+import { getLoggerFor } from '@solid/community-server/dist/logging/LogUtil';
+import type { KeyValueStorage } from '@solid/community-server/dist/storage/keyvalue/KeyValueStorage';
+
+/**
+ * The public name and photo of a WebID hosted on this server.
+ */
+export type IndexedContact = {
+  webId: string;
+  name: string;
+  photo?: string;
+};
+
+/**
+ * Keeps track of the names of the WebIDs on this server, so users can find each other to add as contact.
+ * Only names that are public in the profile are indexed.
+ */
+export class ContactIndex {
+  protected readonly logger = getLoggerFor(this);
+
+  private readonly storage: KeyValueStorage<string, IndexedContact>;
+
+  public constructor(storage: KeyValueStorage<string, IndexedContact>) {
+    this.storage = storage;
+  }
+
+  /**
+   * Updates the entry of a WebID.
+   * The WebID is removed from the index if it has no public name.
+   */
+  public async update(webId: string, name?: string, photo?: string): Promise<void> {
+    if (name) {
+      await this.storage.set(webId, { webId, name, photo });
+    } else {
+      await this.storage.delete(webId);
+    }
+  }
+
+  /**
+   * Finds the WebIDs of which the name contains the query, ignoring case.
+   *
+   * @param query - Text to search for.
+   * @param limit - Maximum number of results.
+   */
+  public async search(query: string, limit: number): Promise<IndexedContact[]> {
+    const needle = query.trim().toLowerCase();
+    const results: IndexedContact[] = [];
+    if (needle.length === 0) {
+      return results;
+    }
+    for await (const [ , contact ] of this.storage.entries()) {
+      if (contact.name.toLowerCase().includes(needle)) {
+        results.push(contact);
+        if (results.length >= limit) {
+          break;
+        }
+      }
+    }
+    return results;
+  }
+}
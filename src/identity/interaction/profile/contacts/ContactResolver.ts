@@ -0,0 +1,191 @@
+import { Parser } from 'n3';
+import type { Quad } from '@rdfjs/types';
+import type { PermissionReader } from '@solid/community-server/dist/authorization/PermissionReader';
+import { AccessMode } from '@solid/community-server/dist/authorization/permissions/Permissions';
+import { getLoggerFor } from '@solid/community-server/dist/logging/LogUtil';
+import type { ResourceStore } from '@solid/community-server/dist/storage/ResourceStore';
+import { TEXT_TURTLE } from '@solid/community-server/dist/util/ContentTypes';
+import { createErrorMessage } from '@solid/community-server/dist/util/errors/ErrorUtil';
+import type { IdentifierStrategy } from '@solid/community-server/dist/util/identifiers/IdentifierStrategy';
+import { IdentifierSetMultiMap } from '@solid/community-server/dist/util/map/IdentifierMap';
+import { parseQuads } from '@solid/community-server/dist/util/QuadUtil';
+import { fetchPublicUrl } from '../util/FetchUtil';
+
+const FOAF = 'http://xmlns.com/foaf/0.1/';
+const VCARD = 'http://www.w3.org/2006/vcard/ns#';
+
+const NAME_PREDICATES = [ `${FOAF}name`, `${VCARD}fn` ];
+const PHOTO_PREDICATES = [ `${VCARD}hasPhoto`, `${FOAF}img`, `${FOAF}depiction` ];
+
+/**
+ * What could be found out about a contact by dereferencing their WebID.
+ */
+export type ResolvedContact = {
+  webId: string;
+  name?: string;
+  photo?: string;
+  /**
+   * If the profile of the contact contains a `foaf:knows` back to the user.
+   */
+  knowsBack: boolean;
+  /**
+   * False if the profile of the contact could not be read, `error` then contains the reason.
+   */
+  reachable: boolean;
+  error?: string;
+};
+
+export interface ContactResolverArgs {
+  /**
+   * Store to read the profiles of the WebIDs hosted on this server.
+   */
+  resourceStore: ResourceStore;
+  /**
+   * Determines if the public can read the profiles hosted on this server.
+   */
+  permissionReader: PermissionReader;
+  /**
+   * Determines which WebIDs are hosted on this server.
+   */
+  identifierStrategy: IdentifierStrategy;
+  /**
+   * Milliseconds to wait for a remote profile.
+   * Defaults to 5 seconds.
+   */
+  timeout?: number;
+  /**
+   * Seconds a remote profile is cached.
+   * Defaults to 10 minutes.
+   */
+  cacheTtl?: number;
+  /**
+   * Maximum number of remote profiles in the cache.
+   * Defaults to 1000.
+   */
+  cacheSize?: number;
+}
+
+/**
+ * Dereferences the WebIDs in the contacts of a profile to find their names and photos.
+ *
+ * WebIDs hosted on this server are read from the {@link ResourceStore}, if their profile is public,
+ * others are fetched as Turtle.
+ * Remote profiles are only fetched from public addresses, so contacts can not be used to reach internal services.
+ * Remote results, including failures, are cached so opening the profile form does not fetch every contact each time.
+ */
+export class ContactResolver {
+  protected readonly logger = getLoggerFor(this);
+
+  private readonly resourceStore: ResourceStore;
+  private readonly permissionReader: PermissionReader;
+  private readonly identifierStrategy: IdentifierStrategy;
+  private readonly timeout: number;
+  private readonly cacheTtl: number;
+  private readonly cacheSize: number;
+  private readonly cache = new Map<string, { expiration: number; quads: Promise<Quad[]> }>();
+
+  public constructor(args: ContactResolverArgs) {
+    this.resourceStore = args.resourceStore;
+    this.permissionReader = args.permissionReader;
+    this.identifierStrategy = args.identifierStrategy;
+    this.timeout = args.timeout ?? 5000;
+    this.cacheTtl = (args.cacheTtl ?? 600) * 1000;
+    this.cacheSize = args.cacheSize ?? 1000;
+  }
+
+  /**
+   * Resolves the contacts of the given WebID.
+   * Contacts that can not be read are included with `reachable` set to false.
+   *
+   * @param webId - WebID of the user the contacts belong to.
+   * @param contacts - WebIDs of the contacts.
+   */
+  public async resolve(webId: string, contacts: string[]): Promise<ResolvedContact[]> {
+    return Promise.all(contacts.map(async(contact): Promise<ResolvedContact> => {
+      let quads: Quad[];
+      try {
+        quads = await this.readProfile(contact);
+      } catch (error: unknown) {
+        this.logger.debug(`Unable to resolve contact ${contact}: ${createErrorMessage(error)}`);
+        return { webId: contact, knowsBack: false, reachable: false, error: createErrorMessage(error) };
+      }
+
+      const find = (predicates: string[]): string | undefined => quads.find((quad): boolean =>
+        quad.subject.value === contact && predicates.includes(quad.predicate.value))?.object.value;
+      return {
+        webId: contact,
+        name: find(NAME_PREDICATES),
+        photo: find(PHOTO_PREDICATES),
+        knowsBack: quads.some((quad): boolean => quad.subject.value === contact &&
+          quad.predicate.value === `${FOAF}knows` && quad.object.value === webId),
+        reachable: true,
+      };
+    }));
+  }
+
+  /**
+   * Reads the quads of the profile document of the given WebID.
+   */
+  private async readProfile(webId: string): Promise<Quad[]> {
+    const url = new URL(webId);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new Error('Not an HTTP(S) URL');
+    }
+    url.hash = '';
+    const identifier = { path: url.href };
+
+    if (this.identifierStrategy.supportsIdentifier(identifier)) {
+      // The store does not check permissions, so only profiles everyone can read are shown
+      const permissions = await this.permissionReader.handleSafe({
+        credentials: {},
+        requestedModes: new IdentifierSetMultiMap<AccessMode>([[ identifier, AccessMode.read ]]),
+      });
+      if (!permissions.get(identifier)?.read) {
+        throw new Error('The profile is not public');
+      }
+      const representation = await this.resourceStore.getRepresentation(identifier, { type: { [TEXT_TURTLE]: 1 }});
+      return parseQuads(representation.data, { baseIRI: identifier.path });
+    }
+    return this.fetchCached(identifier.path);
+  }
+
+  /**
+   * Fetches a remote profile document, using the cached result if it did not expire yet.
+   */
+  private async fetchCached(url: string): Promise<Quad[]> {
+    const cached = this.cache.get(url);
+    if (cached && cached.expiration > Date.now()) {
+      return cached.quads;
+    }
+
+    // Remove the oldest entries to make room, Maps keep their insertion order
+    this.cache.delete(url);
+    for (const key of this.cache.keys()) {
+      if (this.cache.size < this.cacheSize) {
+        break;
+      }
+      this.cache.delete(key);
+    }
+
+    const quads = this.fetchProfile(url);
+    // Prevent unhandled rejections, the error is handled by whoever awaits the promise
+    quads.catch((): void => {});
+    this.cache.set(url, { expiration: Date.now() + this.cacheTtl, quads });
+    return quads;
+  }
+
+  /**
+   * Fetches a remote profile document, only from public addresses, see {@link fetchPublicUrl}.
+   */
+  private async fetchProfile(url: string): Promise<Quad[]> {
+    const response = await fetchPublicUrl(url, {
+      headers: { accept: `${TEXT_TURTLE}, application/n-triples;q=0.9` },
+      signal: AbortSignal.timeout(this.timeout),
+    });
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new Error(`Fetching the profile resulted in status ${response.status}`);
+    }
+    return new Parser({ baseIRI: response.url || url }).parse(await response.text());
+  }
+}
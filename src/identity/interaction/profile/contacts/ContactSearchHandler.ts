@@ -0,0 +1,40 @@
+import type { JsonRepresentation } from '@solid/community-server/dist/identity/interaction/InteractionUtil';
+import type { JsonInteractionHandlerInput } from '@solid/community-server/dist/identity/interaction/JsonInteractionHandler';
+import { JsonInteractionHandler } from '@solid/community-server/dist/identity/interaction/JsonInteractionHandler';
+import type { JsonView } from '@solid/community-server/dist/identity/interaction/JsonView';
+import { assertAccountId } from '@solid/community-server/dist/identity/interaction/account/util/AccountUtil';
+import { BadRequestHttpError } from '@solid/community-server/dist/util/errors/BadRequestHttpError';
+import type { ContactIndex } from './ContactIndex';
+
+/**
+ * Searches the WebIDs on this server by name, so they can be added as contact.
+ * The POSTed `query` is matched against the public names in the {@link ContactIndex}.
+ */
+export class ContactSearchHandler extends JsonInteractionHandler implements JsonView {
+  private readonly contactIndex: ContactIndex;
+  private readonly limit: number;
+
+  /**
+   * @param contactIndex - Index of the names of the WebIDs on this server.
+   * @param limit - Maximum number of results. Defaults to 10.
+   */
+  public constructor(contactIndex: ContactIndex, limit = 10) {
+    super();
+    this.contactIndex = contactIndex;
+    this.limit = limit;
+  }
+
+  public async getView({ accountId }: JsonInteractionHandlerInput): Promise<JsonRepresentation> {
+    assertAccountId(accountId);
+    return { json: { query: 'string' }};
+  }
+
+  public async handle({ accountId, json }: JsonInteractionHandlerInput): Promise<JsonRepresentation> {
+    assertAccountId(accountId);
+    const { query } = json as { query?: unknown };
+    if (typeof query !== 'string') {
+      throw new BadRequestHttpError('A search query is required.');
+    }
+    return { json: { results: await this.contactIndex.search(query, this.limit) }};
+  }
+}
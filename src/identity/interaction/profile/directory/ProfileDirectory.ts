@@ -0,0 +1,206 @@
+import { getLoggerFor } from '@solid/community-server/dist/logging/LogUtil';
+import type { KeyValueStorage } from '@solid/community-server/dist/storage/keyvalue/KeyValueStorage';
+import Dict = NodeJS.Dict;
+import type { ProfileData } from '../ProfileHandler';
+import { pickLanguage, toLocalizedLiterals } from '../util/LanguageUtil';
+import { normalizeText } from '../vocabulary/Vocabulary';
+
+/**
+ * The public fields of a profile that is listed in the directory.
+ */
+export type DirectoryEntry = {
+  webId: string;
+  name?: string;
+  nickname?: string;
+  photo?: string;
+  // Names of the organizations
+  organizations: string[];
+  // URIs of the skills and languages
+  skills: string[];
+  languages: string[];
+  // Labels of the skills and languages that are terms of a vocabulary, with their URIs as keys
+  labels: Dict<string>;
+  // Normalized text the full-text search looks in
+  text: string;
+};
+
+/**
+ * A value of a facet, with the number of results that have it.
+ */
+export type DirectoryFacet = {
+  value: string;
+  label?: string;
+  count: number;
+};
+
+/**
+ * A search in the directory.
+ * All words of the `text` need to be part of the names, organizations, skills or languages of a profile,
+ * and the facets only keep the profiles with the given organization, skill or language.
+ */
+export interface DirectoryQuery {
+  text?: string;
+  organization?: string;
+  skill?: string;
+  language?: string;
+  // Starting at 1
+  page?: number;
+  pageSize?: number;
+}
+
+/**
+ * A page of search results, with the facets of all the profiles matching the query.
+ */
+export type DirectoryPage = {
+  total: number;
+  page: number;
+  pageSize: number;
+  results: Omit<DirectoryEntry, 'text'>[];
+  facets: {
+    organizations: DirectoryFacet[];
+    skills: DirectoryFacet[];
+    languages: DirectoryFacet[];
+  };
+};
+
+/**
+ * Counts how many entries have each of the values, most common first.
+ */
+function countFacet(values: string[][], labels: Dict<string> = {}): DirectoryFacet[] {
+  const counts = new Map<string, number>();
+  for (const value of values.flatMap((entry): string[] => [ ...new Set(entry) ])) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return [ ...counts.entries() ]
+    .map(([ value, count ]): DirectoryFacet => ({ value, label: labels[value], count }))
+    .sort((left, right): number => right.count - left.count || left.value.localeCompare(right.value));
+}
+
+/**
+ * Directory of the profiles on this server of which the owner chose to be listed, with `listInDirectory`,
+ * so users can find each other by name, organization, skill or language.
+ * Only the public fields of a profile are indexed.
+ *
+ * The entries are kept in a key-value storage, with the WebIDs as keys,
+ * and can be rebuilt from the WebID profile documents, see {@link ProfileDirectoryRebuildHandler}.
+ */
+export class ProfileDirectory {
+  protected readonly logger = getLoggerFor(this);
+
+  private readonly storage: KeyValueStorage<string, DirectoryEntry>;
+  private readonly defaultPageSize: number;
+  private readonly maxPageSize: number;
+
+  /**
+   * @param storage - Stores the entries, with the WebIDs as keys.
+   * @param defaultPageSize - Number of results on a page if the query does not choose one. Defaults to 20.
+   * @param maxPageSize - Maximum number of results on a page. Defaults to 100.
+   */
+  public constructor(storage: KeyValueStorage<string, DirectoryEntry>, defaultPageSize = 20, maxPageSize = 100) {
+    this.storage = storage;
+    this.defaultPageSize = defaultPageSize;
+    this.maxPageSize = maxPageSize;
+  }
+
+  /**
+   * Updates the entry of a WebID.
+   * The WebID is removed from the directory if the profile is not listed in it.
+   *
+   * @param webId - WebID of the profile.
+   * @param profile - The public fields of the profile.
+   * @param labels - Labels of the values that are terms of a vocabulary, with the values as keys.
+   */
+  public async update(webId: string, profile: ProfileData, labels: Dict<string> = {}): Promise<void> {
+    if (!profile.listInDirectory) {
+      await this.storage.delete(webId);
+      return;
+    }
+    const organizations = [ ...new Set((profile.organizations ?? [])
+      .map((entry): string | undefined => entry.organizationName ?? entry.organization)
+      .filter((name): name is string => Boolean(name))) ];
+    const skills = profile.skills ?? [];
+    const languages = profile.knowsLanguage ?? [];
+    const entryLabels = Object.fromEntries([ ...skills, ...languages ]
+      .filter((uri): boolean => Boolean(labels[uri]))
+      .map((uri): [ string, string ] => [ uri, labels[uri]! ]));
+
+    // All translations of the names can be searched for
+    const texts = [
+      ...toLocalizedLiterals(profile.name).map((literal): string => literal.value),
+      ...toLocalizedLiterals(profile.nickname).map((literal): string => literal.value),
+      ...organizations,
+      ...Object.values(entryLabels),
+    ];
+    await this.storage.set(webId, {
+      webId,
+      name: pickLanguage(profile.name, []),
+      nickname: pickLanguage(profile.nickname, []),
+      photo: profile.photo,
+      organizations,
+      skills,
+      languages,
+      labels: entryLabels,
+      text: normalizeText(texts.join(' ')),
+    });
+    this.logger.debug(`Updated the directory entry of ${webId}`);
+  }
+
+  /**
+   * Replaces all entries of the directory.
+   *
+   * @param profiles - The public fields of the profiles on the server, with their labels, and their WebIDs as keys.
+   * @param keep - WebIDs of which the current entry is kept, as their profile could not be read.
+   *
+   * @returns The number of profiles listed in the directory.
+   */
+  public async rebuild(profiles: Map<string, { profile: ProfileData; labels: Dict<string> }>, keep: string[] = []):
+  Promise<number> {
+    for await (const [ webId ] of this.storage.entries()) {
+      if (!profiles.has(webId) && !keep.includes(webId)) {
+        await this.storage.delete(webId);
+      }
+    }
+    let count = 0;
+    for (const [ webId, { profile, labels }] of profiles) {
+      await this.update(webId, profile, labels);
+      count += profile.listInDirectory ? 1 : 0;
+    }
+    this.logger.info(`Rebuilt the directory from ${profiles.size} profiles, ${count} of which are listed`);
+    return count;
+  }
+
+  /**
+   * Finds the profiles matching the query, sorted by name.
+   */
+  public async search(query: DirectoryQuery): Promise<DirectoryPage> {
+    const words = normalizeText(query.text ?? '').split(/\s+/u).filter((word): boolean => word.length > 0);
+    const organization = query.organization && normalizeText(query.organization);
+    const matches: DirectoryEntry[] = [];
+    for await (const [ , entry ] of this.storage.entries()) {
+      if (words.every((word): boolean => entry.text.includes(word)) &&
+        (!organization || entry.organizations.some((name): boolean => normalizeText(name) === organization)) &&
+        (!query.skill || entry.skills.includes(query.skill)) &&
+        (!query.language || entry.languages.includes(query.language))) {
+        matches.push(entry);
+      }
+    }
+    matches.sort((left, right): number =>
+      (left.name ?? left.webId).localeCompare(right.name ?? right.webId));
+
+    const pageSize = Math.min(query.pageSize ?? this.defaultPageSize, this.maxPageSize);
+    const page = query.page ?? 1;
+    const labels = Object.assign({}, ...matches.map((entry): Dict<string> => entry.labels)) as Dict<string>;
+    return {
+      total: matches.length,
+      page,
+      pageSize,
+      results: matches.slice((page - 1) * pageSize, page * pageSize)
+        .map(({ text, ...entry }): Omit<DirectoryEntry, 'text'> => entry),
+      facets: {
+        organizations: countFacet(matches.map((entry): string[] => entry.organizations)),
+        skills: countFacet(matches.map((entry): string[] => entry.skills), labels),
+        languages: countFacet(matches.map((entry): string[] => entry.languages), labels),
+      },
+    };
+  }
+}
@@ -0,0 +1,62 @@
+import type { JsonRepresentation } from '@solid/community-server/dist/identity/interaction/InteractionUtil';
+import type { JsonInteractionHandlerInput } from '@solid/community-server/dist/identity/interaction/JsonInteractionHandler';
+import { JsonInteractionHandler } from '@solid/community-server/dist/identity/interaction/JsonInteractionHandler';
+import type { JsonView } from '@solid/community-server/dist/identity/interaction/JsonView';
+import { assertAccountId } from '@solid/community-server/dist/identity/interaction/account/util/AccountUtil';
+import { BadRequestHttpError } from '@solid/community-server/dist/util/errors/BadRequestHttpError';
+import type { DirectoryQuery, ProfileDirectory } from './ProfileDirectory';
+
+const TEXT_KEYS = [ 'text', 'organization', 'skill', 'language' ] as const;
+const NUMBER_KEYS = [ 'page', 'pageSize' ] as const;
+
+/**
+ * Searches the profiles listed in the {@link ProfileDirectory}.
+ * The POSTed `text` is searched for in the names, organizations, skills and languages,
+ * and `organization`, `skill` and `language` only keep the profiles with that value.
+ * The results are split in pages of `pageSize` profiles, `page` chooses which one is returned,
+ * together with the `total` number of results and the `facets` of all of them.
+ */
+export class ProfileDirectoryHandler extends JsonInteractionHandler implements JsonView {
+  private readonly directory: ProfileDirectory;
+
+  /**
+   * @param directory - Directory of the profiles on this server.
+   */
+  public constructor(directory: ProfileDirectory) {
+    super();
+    this.directory = directory;
+  }
+
+  public async getView({ accountId }: JsonInteractionHandlerInput): Promise<JsonRepresentation> {
+    assertAccountId(accountId);
+    return { json: {
+      text: 'string',
+      organization: 'string',
+      skill: 'string',
+      language: 'string',
+      page: 'number',
+      pageSize: 'number',
+    }};
+  }
+
+  public async handle({ accountId, json }: JsonInteractionHandlerInput): Promise<JsonRepresentation> {
+    assertAccountId(accountId);
+    const input = json as Record<string, unknown>;
+    const query: DirectoryQuery = {};
+    for (const key of TEXT_KEYS) {
+      if (input[key] !== undefined && typeof input[key] !== 'string') {
+        throw new BadRequestHttpError(`${key} must be a string`);
+      }
+      if (input[key]) {
+        query[key] = input[key] as string;
+      }
+    }
+    for (const key of NUMBER_KEYS) {
+      if (input[key] !== undefined && !(Number.isInteger(input[key]) && (input[key] as number) > 0)) {
+        throw new BadRequestHttpError(`${key} must be a positive integer`);
+      }
+      query[key] = input[key] as number | undefined;
+    }
+    return { json: await this.directory.search(query) };
+  }
+}
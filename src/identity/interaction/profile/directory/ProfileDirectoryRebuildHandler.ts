@@ -0,0 +1,104 @@
+import type { AccountLoginStorage } from '@solid/community-server/dist/identity/interaction/account/util/LoginStorage';
+import type { JsonRepresentation } from '@solid/community-server/dist/identity/interaction/InteractionUtil';
+import type { JsonInteractionHandlerInput } from '@solid/community-server/dist/identity/interaction/JsonInteractionHandler';
+import { JsonInteractionHandler } from '@solid/community-server/dist/identity/interaction/JsonInteractionHandler';
+import type { JsonView } from '@solid/community-server/dist/identity/interaction/JsonView';
+import type { POD_STORAGE_DESCRIPTION } from '@solid/community-server/dist/identity/interaction/pod/util/BasePodStore';
+import { POD_STORAGE_TYPE } from '@solid/community-server/dist/identity/interaction/pod/util/BasePodStore';
+import type { WebIdStore } from '@solid/community-server/dist/identity/interaction/webid/util/WebIdStore';
+import { getLoggerFor } from '@solid/community-server/dist/logging/LogUtil';
+import { createErrorMessage } from '@solid/community-server/dist/util/errors/ErrorUtil';
+import { ForbiddenHttpError } from '@solid/community-server/dist/util/errors/ForbiddenHttpError';
+import Dict = NodeJS.Dict;
+import type { ProfileData, ProfileHandler } from '../ProfileHandler';
+import { isAdmin } from '../util/AdminUtil';
+import type { ProfileDirectory } from './ProfileDirectory';
+
+export interface ProfileDirectoryRebuildHandlerArgs {
+  /**
+   * Directory to rebuild.
+   */
+  directory: ProfileDirectory;
+  /**
+   * Reads the profiles.
+   */
+  profileHandler: ProfileHandler;
+  /**
+   * Storage of the accounts, to find all the pods on the server.
+   */
+  accountStorage: AccountLoginStorage<{ [POD_STORAGE_TYPE]: typeof POD_STORAGE_DESCRIPTION }>;
+  /**
+   * Store to find the WebIDs linked to the account doing the request.
+   */
+  webIdStore: WebIdStore;
+  /**
+   * WebIDs of the administrators that can rebuild the directory. Nobody can if there are none.
+   */
+  admins?: string[];
+  /**
+   * Where the WebID is located in a pod, relative to its root. Defaults to `profile/card#me`.
+   */
+  relativeWebIdPath?: string;
+}
+
+/**
+ * Rebuilds the {@link ProfileDirectory} from the WebID profile documents in all the pods on the server,
+ * for example after the directory storage was lost, or after profiles were changed outside of the profile form.
+ * Only accounts linked to one of the WebIDs in `admins` can POST to this route.
+ */
+export class ProfileDirectoryRebuildHandler extends JsonInteractionHandler implements JsonView {
+  private readonly logger = getLoggerFor(this);
+
+  private readonly directory: ProfileDirectory;
+  private readonly profileHandler: ProfileHandler;
+  private readonly accountStorage: AccountLoginStorage<{ [POD_STORAGE_TYPE]: typeof POD_STORAGE_DESCRIPTION }>;
+  private readonly webIdStore: WebIdStore;
+  private readonly admins: string[];
+  private readonly relativeWebIdPath: string;
+
+  public constructor(args: ProfileDirectoryRebuildHandlerArgs) {
+    super();
+    this.directory = args.directory;
+    this.profileHandler = args.profileHandler;
+    this.accountStorage = args.accountStorage;
+    this.webIdStore = args.webIdStore;
+    this.admins = args.admins ?? [];
+    this.relativeWebIdPath = args.relativeWebIdPath ?? 'profile/card#me';
+  }
+
+  public async getView({ accountId }: JsonInteractionHandlerInput): Promise<JsonRepresentation> {
+    await this.assertAdmin(accountId);
+    return { json: {}};
+  }
+
+  public async handle({ accountId }: JsonInteractionHandlerInput): Promise<JsonRepresentation> {
+    await this.assertAdmin(accountId);
+    this.logger.info(`Account ${accountId} rebuilds the profile directory`);
+
+    const profiles = new Map<string, { profile: ProfileData; labels: Dict<string> }>();
+    const failed: string[] = [];
+    for await (const { baseUrl } of this.accountStorage.entries(POD_STORAGE_TYPE)) {
+      const webId = new URL(this.relativeWebIdPath, baseUrl).href;
+      try {
+        const profile = await this.profileHandler.readPublicProfile(webId);
+        profiles.set(webId, { profile, labels: await this.profileHandler.getLabels(profile) });
+      } catch (error: unknown) {
+        // A profile that can not be read keeps its current entry
+        this.logger.warn(`Could not read the profile of ${webId}: ${createErrorMessage(error)}`);
+        failed.push(webId);
+      }
+    }
+    const listed = await this.directory.rebuild(profiles, failed);
+    return { json: { profiles: profiles.size, listed, failed }};
+  }
+
+  /**
+   * Throws an error if the account is not one of the admins.
+   */
+  private async assertAdmin(accountId?: string): Promise<void> {
+    if (!await isAdmin(this.webIdStore, this.admins, accountId)) {
+      this.logger.warn(`Account ${accountId} tried to rebuild the profile directory without being an admin`);
+      throw new ForbiddenHttpError('Only administrators can rebuild the profile directory.');
+    }
+  }
+}
@@ -0,0 +1,187 @@
+import { randomUUID } from 'node:crypto';
+import { getLoggerFor } from '@solid/community-server/dist/logging/LogUtil';
+import type { EmailSender } from '@solid/community-server/dist/identity/interaction/password/util/EmailSender';
+import type { InteractionRoute } from '@solid/community-server/dist/identity/interaction/routing/InteractionRoute';
+import type { ExpiringStorage } from '@solid/community-server/dist/storage/keyvalue/ExpiringStorage';
+import { BadRequestHttpError } from '@solid/community-server/dist/util/errors/BadRequestHttpError';
+import type { TemplateEngine } from '@solid/community-server/dist/util/templates/TemplateEngine';
+
+/**
+ * A contact email address that is waiting to be verified before it is added to a profile.
+ */
+export type PendingEmail = {
+  email: string;
+  /**
+   * The vCard type of the address, such as `Work` or `Home`.
+   */
+  type?: string;
+};
+
+/**
+ * A verification as stored for a WebID.
+ */
+export type EmailVerification = PendingEmail & {
+  token: string;
+  /**
+   * Time in milliseconds since the epoch after which the token can no longer be used.
+   */
+  expiration: number;
+};
+
+export interface EmailVerificationServiceArgs {
+  /**
+   * Maps verification tokens to the WebID they belong to.
+   */
+  tokenStorage: ExpiringStorage<string, string>;
+  /**
+   * Stores the pending verifications of each WebID.
+   */
+  pendingStorage: ExpiringStorage<string, EmailVerification[]>;
+  /**
+   * Renders the HTML body of the verification email.
+   */
+  templateEngine: TemplateEngine<{ verifyLink: string; email: string }>;
+  emailSender: EmailSender;
+  /**
+   * Route of the page where the verification link points to.
+   */
+  verifyRoute: InteractionRoute;
+  /**
+   * Minutes a verification link stays valid.
+   * Defaults to 24 hours.
+   */
+  ttl?: number;
+}
+
+/**
+ * Verifies contact email addresses before they are written to a profile,
+ * by mailing a link with a token to each address.
+ *
+ * The pending addresses of a WebID are stored so they can be shown while waiting for the verification,
+ * and so a new link is only sent for addresses that are not already pending.
+ */
+export class EmailVerificationService {
+  protected readonly logger = getLoggerFor(this);
+
+  private readonly tokenStorage: ExpiringStorage<string, string>;
+  private readonly pendingStorage: ExpiringStorage<string, EmailVerification[]>;
+  private readonly templateEngine: TemplateEngine<{ verifyLink: string; email: string }>;
+  private readonly emailSender: EmailSender;
+  private readonly verifyRoute: InteractionRoute;
+  private readonly ttl: number;
+
+  public constructor(args: EmailVerificationServiceArgs) {
+    this.tokenStorage = args.tokenStorage;
+    this.pendingStorage = args.pendingStorage;
+    this.templateEngine = args.templateEngine;
+    this.emailSender = args.emailSender;
+    this.verifyRoute = args.verifyRoute;
+    this.ttl = (args.ttl ?? 24 * 60) * 60 * 1000;
+  }
+
+  /**
+   * Returns the addresses of the given WebID that are waiting to be verified.
+   */
+  public async findPending(webId: string): Promise<PendingEmail[]> {
+    return (await this.getVerifications(webId)).map(({ email, type }): PendingEmail => ({ email, type }));
+  }
+
+  /**
+   * Replaces the pending addresses of the given WebID.
+   * A verification email is sent to each address that was not pending yet,
+   * pending addresses that are not in the list can no longer be verified.
+   *
+   * @param webId - WebID the addresses will be added to.
+   * @param emails - The addresses that need to be verified.
+   */
+  public async setPending(webId: string, emails: PendingEmail[]): Promise<void> {
+    const current = await this.getVerifications(webId);
+    const verifications: EmailVerification[] = [];
+    for (const { email, type } of emails) {
+      const existing = current.find((entry): boolean => isSameEmail(entry.email, email));
+      if (existing) {
+        verifications.push({ ...existing, type });
+        continue;
+      }
+      const token = randomUUID();
+      await this.tokenStorage.set(token, webId, this.ttl);
+      await this.sendVerificationMail(token, email);
+      verifications.push({ email, type, token, expiration: Date.now() + this.ttl });
+    }
+
+    for (const { token } of current) {
+      if (!verifications.some((entry): boolean => entry.token === token)) {
+        await this.tokenStorage.delete(token);
+      }
+    }
+    await this.writeVerifications(webId, verifications);
+  }
+
+  /**
+   * Uses the given token to verify an address.
+   * The token can only be used once, unless adding the address fails.
+   * Returns the verified address and the WebID it belongs to.
+   * Throws an error if the token is unknown or expired.
+   *
+   * @param token - Token from the verification link.
+   * @param add - Adds the verified address to the profile of the WebID.
+   */
+  public async verify(token: string, add: (webId: string, email: PendingEmail) => Promise<void>):
+  Promise<PendingEmail & { webId: string }> {
+    const webId = await this.tokenStorage.get(token);
+    const verifications = webId ? await this.getVerifications(webId) : [];
+    const verification = verifications.find((entry): boolean => entry.token === token);
+    if (!webId || !verification) {
+      this.logger.warn(`Trying to use invalid email verification link with token ${token}`);
+      throw new BadRequestHttpError('This verification link is no longer valid.');
+    }
+
+    const result = { email: verification.email, type: verification.type };
+    await add(webId, result);
+
+    await this.tokenStorage.delete(token);
+    // Read again, as this might have changed while adding the address
+    const remaining = await this.getVerifications(webId);
+    await this.writeVerifications(webId, remaining.filter((entry): boolean => entry.token !== token));
+    this.logger.debug(`Verified email address ${verification.email} for ${webId}`);
+    return { ...result, webId };
+  }
+
+  /**
+   * Returns the verifications of the WebID that have not expired yet.
+   */
+  private async getVerifications(webId: string): Promise<EmailVerification[]> {
+    const verifications = await this.pendingStorage.get(webId) ?? [];
+    return verifications.filter(({ expiration }): boolean => expiration > Date.now());
+  }
+
+  private async writeVerifications(webId: string, verifications: EmailVerification[]): Promise<void> {
+    if (verifications.length === 0) {
+      await this.pendingStorage.delete(webId);
+    } else {
+      await this.pendingStorage.set(webId, verifications, this.ttl);
+    }
+  }
+
+  /**
+   * Generates the verification link and mails it to the given address.
+   */
+  private async sendVerificationMail(token: string, email: string): Promise<void> {
+    this.logger.info(`Sending email verification to ${email}`);
+    const verifyLink = `${this.verifyRoute.getPath()}?token=${encodeURIComponent(token)}`;
+    const renderedEmail = await this.templateEngine.handleSafe({ contents: { verifyLink, email }});
+    await this.emailSender.handleSafe({
+      recipient: email,
+      subject: 'Verify your email address',
+      text: `To add ${email} to your profile, go to this link: ${verifyLink}`,
+      html: renderedEmail,
+    });
+  }
+}
+
+/**
+ * Email addresses are compared case-insensitively.
+ */
+export function isSameEmail(left: string, right: string): boolean {
+  return left.toLowerCase() === right.toLowerCase();
+}
@@ -0,0 +1,45 @@
+import { getLoggerFor } from '@solid/community-server/dist/logging/LogUtil';
+import type { JsonRepresentation } from '@solid/community-server/dist/identity/interaction/InteractionUtil';
+import type { JsonInteractionHandlerInput } from '@solid/community-server/dist/identity/interaction/JsonInteractionHandler';
+import { JsonInteractionHandler } from '@solid/community-server/dist/identity/interaction/JsonInteractionHandler';
+import type { JsonView } from '@solid/community-server/dist/identity/interaction/JsonView';
+import { BadRequestHttpError } from '@solid/community-server/dist/util/errors/BadRequestHttpError';
+import type { ProfileHandler } from '../ProfileHandler';
+import type { EmailVerificationService } from './EmailVerificationService';
+
+/**
+ * Handles the link of a verification email.
+ * The POSTed `token` is checked by the {@link EmailVerificationService},
+ * after which the address is added to the profile it was requested for.
+ *
+ * No login is needed, as only the recipient of the email knows the token.
+ */
+export class VerifyEmailHandler extends JsonInteractionHandler implements JsonView {
+  private readonly logger = getLoggerFor(this);
+
+  private readonly verificationService: EmailVerificationService;
+  private readonly profileHandler: ProfileHandler;
+
+  public constructor(verificationService: EmailVerificationService, profileHandler: ProfileHandler) {
+    super();
+    this.verificationService = verificationService;
+    this.profileHandler = profileHandler;
+  }
+
+  public async getView(): Promise<JsonRepresentation> {
+    return { json: { token: 'string' }};
+  }
+
+  public async handle({ json }: JsonInteractionHandlerInput): Promise<JsonRepresentation> {
+    const { token } = json as { token?: unknown };
+    if (typeof token !== 'string' || token.length === 0) {
+      throw new BadRequestHttpError('A verification token is required.');
+    }
+
+    const { webId, email } = await this.verificationService.verify(token,
+      async(target, pending): Promise<void> => this.profileHandler.addContactEmail(target, pending));
+    this.logger.info(`Added verified email address to the profile of ${webId}`);
+
+    return { json: { webId, email }};
+  }
+}
@@ -0,0 +1,22 @@
+import { AsyncHandler } from '@solid/community-server/dist/util/handlers/AsyncHandler';
+import type { ProfileRevision } from '../history/ProfileHistory';
+import type { Visibility } from '../visibility/VisibilityUtil';
+
+/**
+ * A change of a profile, as reported to the {@link ProfileChangeListener}s.
+ */
+export interface ProfileChangeEvent {
+  webId: string;
+  // The fields of the profile that changed
+  keys: string[];
+  // The fields that changed for each audience, only looking at the profile documents it can read
+  visibleKeys: Record<Visibility, string[]>;
+  // The recorded change, with the quads that were deleted from and inserted into each profile document
+  revision: ProfileRevision;
+}
+
+/**
+ * Is told about every change of a profile that is saved by the {@link ProfileHandler},
+ * so other services can follow the profiles on the server.
+ */
+export abstract class ProfileChangeListener extends AsyncHandler<ProfileChangeEvent> {}
@@ -0,0 +1,55 @@
+import { DataFactory } from 'n3';
+import type { Notification } from '@solid/community-server/dist/server/notifications/Notification';
+import type { NotificationHandlerInput } from '@solid/community-server/dist/server/notifications/NotificationHandler';
+import { NotificationGenerator } from '@solid/community-server/dist/server/notifications/generate/NotificationGenerator';
+import { NotImplementedHttpError } from '@solid/community-server/dist/util/errors/NotImplementedHttpError';
+import { AS } from '@solid/community-server/dist/util/Vocabularies';
+
+export const AS_ACTOR = DataFactory.namedNode(`${AS.namespace}actor`);
+export const AS_CONTENT = DataFactory.namedNode(`${AS.namespace}content`);
+export const AS_MEDIA_TYPE = DataFactory.namedNode(`${AS.namespace}mediaType`);
+
+/**
+ * A notification describing how a profile document changed.
+ */
+export interface ProfileNotification extends Notification {
+  // The WebID of the profile
+  actor: string;
+  // The changes to the document
+  content: string;
+  mediaType: string;
+}
+
+/**
+ * Generates the notifications sent by the {@link ProfileNotificationListener}.
+ * The notification of the source, such as an `Update` of the document,
+ * is extended with the WebID of the profile as `actor`
+ * and with the changes made to the document as `content`, in the `mediaType` they were described in.
+ * All of these are Activity Streams terms, so the notification keeps the same JSON-LD context.
+ */
+export class ProfileNotificationGenerator extends NotificationGenerator {
+  private readonly source: NotificationGenerator;
+
+  public constructor(source: NotificationGenerator) {
+    super();
+    this.source = source;
+  }
+
+  public async canHandle(input: NotificationHandlerInput): Promise<void> {
+    if (!input.metadata?.has(AS_CONTENT)) {
+      throw new NotImplementedHttpError('Only notifications about profile changes are supported.');
+    }
+    await this.source.canHandle(input);
+  }
+
+  public async handle(input: NotificationHandlerInput): Promise<ProfileNotification> {
+    const notification = await this.source.handle(input);
+    const { metadata } = input;
+    return {
+      ...notification,
+      actor: metadata!.get(AS_ACTOR)!.value,
+      content: metadata!.get(AS_CONTENT)!.value,
+      mediaType: metadata!.get(AS_MEDIA_TYPE)!.value,
+    };
+  }
+}
@@ -0,0 +1,62 @@
+import { DataFactory } from 'n3';
+import { RepresentationMetadata } from '@solid/community-server/dist/http/representation/RepresentationMetadata';
+import { getLoggerFor } from '@solid/community-server/dist/logging/LogUtil';
+import type { NotificationChannelStorage } from '@solid/community-server/dist/server/notifications/NotificationChannelStorage';
+import type { NotificationHandler } from '@solid/community-server/dist/server/notifications/NotificationHandler';
+import { TEXT_N3 } from '@solid/community-server/dist/util/ContentTypes';
+import { createErrorMessage } from '@solid/community-server/dist/util/errors/ErrorUtil';
+import { AS } from '@solid/community-server/dist/util/Vocabularies';
+import { createN3PatchString } from '../ProfileHandler';
+import type { ProfileChangeEvent } from './ProfileChangeListener';
+import { ProfileChangeListener } from './ProfileChangeListener';
+import { AS_ACTOR, AS_CONTENT, AS_MEDIA_TYPE } from './ProfileNotificationGenerator';
+
+/**
+ * Sends a Solid notification about a profile change
+ * to the notification channels of every profile document that changed, such as `profile/card`,
+ * with the N3 Patch of that document as content, see {@link ProfileNotificationGenerator}.
+ *
+ * Subscribers also receive the generic `Update` notification of the resource store for the same change.
+ * The changed fields are not part of the notification,
+ * as they would tell subscribers of the public document which hidden fields changed.
+ */
+export class ProfileNotificationListener extends ProfileChangeListener {
+  private readonly logger = getLoggerFor(this);
+
+  private readonly storage: NotificationChannelStorage;
+  private readonly handler: NotificationHandler;
+
+  /**
+   * @param storage - Storage of the notification channels.
+   * @param handler - Generates and emits the notifications, for each type of channel.
+   */
+  public constructor(storage: NotificationChannelStorage, handler: NotificationHandler) {
+    super();
+    this.storage = storage;
+    this.handler = handler;
+  }
+
+  public async handle({ webId, revision }: ProfileChangeEvent): Promise<void> {
+    for (const { document, deletes, inserts } of revision.patches) {
+      const topic = { path: document };
+      const metadata = new RepresentationMetadata(topic);
+      metadata.add(AS_ACTOR, DataFactory.namedNode(webId));
+      metadata.add(AS_CONTENT, createN3PatchString(deletes, inserts, []));
+      metadata.add(AS_MEDIA_TYPE, TEXT_N3);
+
+      for (const id of await this.storage.getAll(topic)) {
+        const channel = await this.storage.get(id);
+        // Expired channels are not returned, and channels can ask to only receive notifications after a given time
+        if (!channel || (channel.startAt && channel.startAt > Date.now())) {
+          continue;
+        }
+        try {
+          await this.handler.handleSafe({ channel, topic, activity: AS.terms.Update, metadata });
+        } catch (error: unknown) {
+          this.logger.error(`Could not notify channel ${id} of the change of ${document}: ${
+            createErrorMessage(error)}`);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import { createHmac, randomUUID } from 'node:crypto';
+import { setTimeout } from 'node:timers/promises';
+import { getLoggerFor } from '@solid/community-server/dist/logging/LogUtil';
+import { APPLICATION_JSON } from '@solid/community-server/dist/util/ContentTypes';
+import { createErrorMessage } from '@solid/community-server/dist/util/errors/ErrorUtil';
+import { serializeRevision } from '../history/ProfileHistory';
+import type { Visibility } from '../visibility/VisibilityUtil';
+import { getVisibilityDocumentUrl, VISIBILITY_LEVELS } from '../visibility/VisibilityUtil';
+import type { ProfileChangeEvent } from './ProfileChangeListener';
+import { ProfileChangeListener } from './ProfileChangeListener';
+
+export interface ProfileWebhookListenerArgs {
+  /**
+   * URL the changes are POSTed to.
+   */
+  url: string;
+  /**
+   * Secret shared with the receiver, to sign the requests with.
+   * Requests are not signed if there is none.
+   */
+  secret?: string;
+  /**
+   * Who the receiver is trusted as: only the changes this audience could read are sent.
+   * Defaults to `public`, so only the WebID profile document and the public fields are included.
+   */
+  audience?: Visibility;
+  /**
+   * How many times a change is sent before giving up. Defaults to 3.
+   */
+  maxAttempts?: number;
+  /**
+   * Milliseconds to wait before sending a change again, doubled after every failed attempt. Defaults to 1000.
+   */
+  retryDelay?: number;
+  /**
+   * Milliseconds to wait for a response before an attempt fails. Defaults to 10000.
+   */
+  timeout?: number;
+}
+
+/**
+ * POSTs every profile change as JSON to a webhook of another service, such as a member directory.
+ * The body contains the `webId`, the changed `keys`,
+ * and the `revision` with the deleted and inserted quads of each document as N-Triples.
+ * Only the documents and keys visible to the configured `audience` are included,
+ * and changes that are not visible to it are not sent at all.
+ *
+ * Each change has a `Profile-Delivery` header, which stays the same when it is sent again,
+ * so the receiver can ignore duplicates.
+ * With a `secret`, the `Profile-Signature` header contains `sha256=` followed by the hex HMAC-SHA256 of the body.
+ *
+ * Network errors, timeouts, 429 and 5xx responses are retried, other responses are not.
+ */
+export class ProfileWebhookListener extends ProfileChangeListener {
+  private readonly logger = getLoggerFor(this);
+
+  private readonly url: string;
+  private readonly secret?: string;
+  private readonly audience: Visibility;
+  private readonly maxAttempts: number;
+  private readonly retryDelay: number;
+  private readonly timeout: number;
+
+  public constructor(args: ProfileWebhookListenerArgs) {
+    super();
+    this.url = args.url;
+    this.secret = args.secret;
+    this.audience = args.audience ?? 'public';
+    this.maxAttempts = args.maxAttempts ?? 3;
+    this.retryDelay = args.retryDelay ?? 1000;
+    this.timeout = args.timeout ?? 10000;
+  }
+
+  public async handle({ webId, visibleKeys, revision: fullRevision }: ProfileChangeEvent): Promise<void> {
+    const documents = VISIBILITY_LEVELS.slice(0, VISIBILITY_LEVELS.indexOf(this.audience) + 1)
+      .map((level): string => getVisibilityDocumentUrl(webId, level));
+    const keys = visibleKeys[this.audience];
+    const revision = { ...fullRevision,
+      patches: fullRevision.patches.filter((patch): boolean => documents.includes(patch.document)) };
+    if (keys.length === 0 && revision.patches.length === 0) {
+      this.logger.debug(`Revision ${revision.id} of ${webId} is not visible to ${this.url}`);
+      return;
+    }
+
+    const body = JSON.stringify({ webId, keys, revision: serializeRevision(revision) });
+    const headers: Record<string, string> = {
+      'content-type': APPLICATION_JSON,
+      'profile-delivery': randomUUID(),
+    };
+    if (this.secret) {
+      headers['profile-signature'] = `sha256=${createHmac('sha256', this.secret).update(body).digest('hex')}`;
+    }
+
+    for (let attempt = 1; ; attempt += 1) {
+      let response: Response | undefined;
+      let reason: string;
+      try {
+        response = await fetch(this.url, { method: 'POST', headers, body, signal: AbortSignal.timeout(this.timeout) });
+        reason = `status code ${response.status}`;
+      } catch (error: unknown) {
+        reason = createErrorMessage(error);
+      }
+      if (response?.ok) {
+        this.logger.debug(`Sent revision ${revision.id} of ${webId} to ${this.url}`);
+        return;
+      }
+      if (response && response.status < 500 && response.status !== 429) {
+        throw new Error(`${this.url} rejected revision ${revision.id} of ${webId} with ${reason}`);
+      }
+      if (attempt >= this.maxAttempts) {
+        throw new Error(`Could not send revision ${revision.id} of ${webId} to ${this.url} after ${attempt} attempts: ${
+          reason}`);
+      }
+      this.logger.warn(`Attempt ${attempt} to send revision ${revision.id} of ${webId} to ${this.url} failed: ${
+        reason}`);
+      await setTimeout(this.retryDelay * (2 ** (attempt - 1)));
+    }
+  }
+}
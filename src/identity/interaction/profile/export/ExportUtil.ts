@@ -0,0 +1,276 @@
+import type { Quad, Term } from '@rdfjs/types';
+import type { Json } from '@solid/community-server/dist/util/Json';
+import Dict = NodeJS.Dict;
+import { getCountryName } from '../address/CountryUtil';
+import { toTelUri } from '../phone/PhoneUtil';
+import { pickLanguage } from '../util/LanguageUtil';
+import type { ProfileData } from '../ProfileHandler';
+
+type OrganizationEntry = NonNullable<ProfileData['organizations']>[number];
+type AddressEntry = NonNullable<ProfileData['addresses']>[number];
+
+const RDF = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
+const XSD = 'http://www.w3.org/2001/XMLSchema#';
+
+/**
+ * Prefixes used in the context of JSON-LD exports.
+ */
+const PREFIXES: Record<string, string> = {
+  foaf: 'http://xmlns.com/foaf/0.1/',
+  vcard: 'http://www.w3.org/2006/vcard/ns#',
+  schema: 'http://schema.org/',
+  solid: 'http://www.w3.org/ns/solid/terms#',
+  org: 'http://www.w3.org/ns/org#',
+  rdfs: 'http://www.w3.org/2000/01/rdf-schema#',
+  pim: 'http://www.w3.org/ns/pim/space#',
+  ldp: 'http://www.w3.org/ns/ldp#',
+  xsd: XSD,
+};
+
+/**
+ * Returns the text of a value, which can be a language value object or a language map for multilingual fields.
+ * Exported profiles are localized first, so this only picks a text for values that were not.
+ */
+function getText(value: unknown): string | undefined {
+  return pickLanguage(value, []);
+}
+
+/**
+ * Finds the language tag in a language URI, such as `en` in `https://www.w3.org/ns/iana/language-code/en`.
+ */
+function getLanguageTag(value: string): string | undefined {
+  const tag = value.split('/').pop();
+  return tag && /^[a-z]{2,3}(?:-[\da-z]+)*$/iu.test(tag) ? tag : undefined;
+}
+
+/**
+ * Returns the email addresses of the profile, starting with the published login email.
+ */
+function getEmails(profile: ProfileData): { email: string; type?: string }[] {
+  return [ ...profile.email ? [{ email: profile.email }] : [], ...profile.emails ?? [] ];
+}
+
+function getOrganizationName(entry: OrganizationEntry): string | undefined {
+  return entry.organizationName ?? entry.organization;
+}
+
+/**
+ * Removes the keys with an undefined value or an empty list, so they are not part of the export.
+ */
+function withoutEmpty<T extends Dict<unknown>>(object: T): T {
+  return Object.fromEntries(Object.entries(object).filter(([ , value ]): boolean =>
+    value !== undefined && !(Array.isArray(value) && value.length === 0))) as T;
+}
+
+function escapeVCardValue(value: string): string {
+  return value.replace(/\\/gu, '\\\\').replace(/,/gu, '\\,').replace(/;/gu, '\\;').replace(/\r?\n/gu, '\\n');
+}
+
+/**
+ * Folds a vCard line so no line is longer than 75 characters, as required by RFC 6350.
+ */
+function foldVCardLine(line: string): string {
+  const parts = [ line.slice(0, 75) ];
+  for (let index = 75; index < line.length; index += 74) {
+    parts.push(` ${line.slice(index, index + 74)}`);
+  }
+  return parts.join('\r\n');
+}
+
+/**
+ * Renders the profile as a vCard 4.0.
+ * The current organization and role become the `ORG` and `TITLE`, languages the `LANG` of the card.
+ * Countries of addresses are written as their English name, as vCard has no field for the country code.
+ */
+export function toVCard(webId: string, profile: ProfileData): string {
+  const lines = [ 'BEGIN:VCARD', 'VERSION:4.0' ];
+  const add = (name: string, value?: string): void => {
+    if (value) {
+      lines.push(`${name}:${escapeVCardValue(value)}`);
+    }
+  };
+
+  // The formatted name is the only required property
+  add('FN', getText(profile.name) ?? getText(profile.nickname) ?? webId);
+  add('NICKNAME', getText(profile.nickname));
+  for (const { email, type } of getEmails(profile)) {
+    add(type ? `EMAIL;TYPE=${type.toLowerCase()}` : 'EMAIL', email);
+  }
+  for (const { phone, type } of profile.phones ?? []) {
+    // vCard 4 prefers phone numbers as tel: URIs
+    lines.push(`TEL;VALUE=uri;TYPE=${type ? type.toLowerCase() : 'voice'}:${toTelUri(phone)}`);
+  }
+  for (const address of profile.addresses ?? []) {
+    // The post office box and extended address components are not used
+    const components = [ '', '', address.streetAddress, address.locality, address.region, address.postalCode,
+      address.country && getCountryName(address.country) ];
+    lines.push(`ADR${address.type ? `;TYPE=${address.type.toLowerCase()}` : ''}:${
+      components.map((value): string => escapeVCardValue(value ?? '')).join(';')}`);
+  }
+  add('PHOTO', getText(profile.photo));
+  add('URL', getText(profile.homepage));
+  add('SOURCE', webId);
+
+  const pronouns = [ profile.preferredSubjectPronoun, profile.preferredObjectPronoun ]
+    .map(getText).filter(Boolean).join('/');
+  add('PRONOUNS', pronouns);
+
+  for (const [ index, language ] of (profile.knowsLanguage ?? []).entries()) {
+    const tag = getLanguageTag(language);
+    if (tag) {
+      lines.push(`LANG;PREF=${index + 1}:${tag}`);
+    }
+  }
+
+  const organizations = profile.organizations ?? [];
+  const current = organizations.find((entry): boolean => entry.roleType === 'CurrentRole') ?? organizations[0];
+  if (current) {
+    add('ORG', getOrganizationName(current));
+    add('TITLE', getText(current.role));
+  }
+
+  lines.push('END:VCARD');
+  return `${lines.map(foldVCardLine).join('\r\n')}\r\n`;
+}
+
+/**
+ * Renders the profile as a [JSON Resume](https://jsonresume.org/schema),
+ * with the organizations as work history, and the first address as location.
+ */
+export function toJsonResume(webId: string, profile: ProfileData): Json {
+  const profiles = (profile.accounts ?? []).map((account): Json => withoutEmpty({
+    network: account.label ?? account.type.replace(/Account$/u, ''),
+    username: account.accountName,
+    url: account.accountServiceHomepage,
+  }));
+  const work = (profile.organizations ?? []).map((entry): Json => withoutEmpty({
+    name: getOrganizationName(entry),
+    position: getText(entry.role),
+    url: entry.organization && /^https?:\/\//u.test(entry.organization) ? entry.organization : undefined,
+    startDate: entry.startDate,
+    endDate: entry.endDate,
+    summary: getText(entry.description),
+  }));
+  const languages = (profile.knowsLanguage ?? []).map(getLanguageTag).filter(Boolean)
+    .map((language): Json => ({ language: language! }));
+  const address: AddressEntry | undefined = profile.addresses?.[0];
+
+  return withoutEmpty({
+    basics: withoutEmpty({
+      name: getText(profile.name),
+      email: getEmails(profile)[0]?.email,
+      phone: profile.phones?.[0]?.phone,
+      url: getText(profile.homepage) ?? webId,
+      image: getText(profile.photo),
+      location: address && withoutEmpty({
+        address: address.streetAddress,
+        postalCode: address.postalCode,
+        city: address.locality,
+        region: address.region,
+        countryCode: address.country,
+      }),
+      profiles,
+    }),
+    work,
+    languages,
+  }) as Json;
+}
+
+/**
+ * Renders the profile as schema.org `Person`,
+ * wrapped in a script element so it can be embedded in a web page.
+ */
+export function toSchemaPerson(webId: string, profile: ProfileData): string {
+  const organizations = profile.organizations ?? [];
+  const toOrganization = (entry: OrganizationEntry): Json => withoutEmpty({
+    '@type': 'Organization',
+    '@id': entry.organization && /^https?:\/\//u.test(entry.organization) ? entry.organization : undefined,
+    name: entry.organizationName,
+  });
+  const current = organizations.filter((entry): boolean => entry.roleType === 'CurrentRole');
+  const past = organizations.filter((entry): boolean => entry.roleType === 'PastRole');
+
+  const person = withoutEmpty({
+    '@context': 'https://schema.org',
+    '@type': 'Person',
+    '@id': webId,
+    name: getText(profile.name),
+    alternateName: getText(profile.nickname),
+    email: getEmails(profile).map(({ email }): string => email),
+    telephone: (profile.phones ?? []).map(({ phone }): string => phone),
+    address: (profile.addresses ?? []).map((address): Json => withoutEmpty({
+      '@type': 'PostalAddress',
+      streetAddress: address.streetAddress,
+      addressLocality: address.locality,
+      addressRegion: address.region,
+      postalCode: address.postalCode,
+      addressCountry: address.country,
+    })),
+    image: getText(profile.photo),
+    url: getText(profile.homepage),
+    jobTitle: current.map((entry): string | undefined => getText(entry.role)).filter(Boolean),
+    worksFor: current.map(toOrganization),
+    alumniOf: past.map(toOrganization),
+    knowsLanguage: (profile.knowsLanguage ?? []).map(getLanguageTag).filter(Boolean),
+    knows: (profile.knows ?? []).map((contact): Json => ({ '@type': 'Person', '@id': contact })),
+    skills: profile.skills,
+  });
+
+  // Prevent the data from closing the script element
+  const json = JSON.stringify(person, null, 2).replace(/</gu, '\\u003c');
+  return `<script type="application/ld+json">\n${json}\n</script>\n`;
+}
+
+function compactIri(iri: string): string {
+  for (const [ prefix, namespace ] of Object.entries(PREFIXES)) {
+    if (iri.startsWith(namespace) && /^[\w-]+$/u.test(iri.slice(namespace.length))) {
+      return `${prefix}:${iri.slice(namespace.length)}`;
+    }
+  }
+  return iri;
+}
+
+function toJsonLdId(term: Term): string {
+  return term.termType === 'BlankNode' ? `_:${term.value}` : compactIri(term.value);
+}
+
+function toJsonLdValue(term: Term): Json {
+  if (term.termType !== 'Literal') {
+    return { '@id': toJsonLdId(term) };
+  }
+  if (term.language) {
+    return { '@value': term.value, '@language': term.language };
+  }
+  if (term.datatype.value !== `${XSD}string`) {
+    return { '@value': term.value, '@type': compactIri(term.datatype.value) };
+  }
+  return term.value;
+}
+
+/**
+ * Renders the quads of the profile as compact JSON-LD, using the common profile vocabularies as prefixes.
+ * The node of the WebID comes first in the graph.
+ */
+export function toJsonLd(webId: string, quads: Quad[]): Json {
+  const nodes = new Map<string, Dict<Json>>();
+  nodes.set(webId, { '@id': compactIri(webId) });
+  for (const quad of quads) {
+    const id = toJsonLdId(quad.subject);
+    const key = quad.subject.termType === 'BlankNode' ? id : quad.subject.value;
+    const node = nodes.get(key) ?? { '@id': id };
+    nodes.set(key, node);
+
+    const isType = quad.predicate.value === `${RDF}type` && quad.object.termType !== 'Literal';
+    const predicate = isType ? '@type' : compactIri(quad.predicate.value);
+    const value = isType ? compactIri(quad.object.value) : toJsonLdValue(quad.object);
+    const existing = node[predicate];
+    if (existing === undefined) {
+      node[predicate] = value;
+    } else if (!(Array.isArray(existing) ? existing : [ existing ])
+      .some((entry): boolean => JSON.stringify(entry) === JSON.stringify(value))) {
+      node[predicate] = [ ...Array.isArray(existing) ? existing : [ existing ], value ];
+    }
+  }
+
+  return { '@context': PREFIXES, '@graph': [ ...nodes.values() ] as Json[] };
+}
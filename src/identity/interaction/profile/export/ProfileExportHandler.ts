@@ -0,0 +1,102 @@
+import type { Quad } from '@rdfjs/types';
+import { getLoggerFor } from '@solid/community-server/dist/logging/LogUtil';
+import type { JsonRepresentation } from '@solid/community-server/dist/identity/interaction/InteractionUtil';
+import type { JsonInteractionHandlerInput } from '@solid/community-server/dist/identity/interaction/JsonInteractionHandler';
+import { JsonInteractionHandler } from '@solid/community-server/dist/identity/interaction/JsonInteractionHandler';
+import type { JsonView } from '@solid/community-server/dist/identity/interaction/JsonView';
+import { BadRequestHttpError } from '@solid/community-server/dist/util/errors/BadRequestHttpError';
+import type { ProfileData, ProfileHandler } from '../ProfileHandler';
+import { localizeProfile } from '../ProfileHandler';
+import { getAcceptedLanguages } from '../util/LanguageUtil';
+import { isVisibility, VISIBILITY_LEVELS } from '../visibility/VisibilityUtil';
+import { toJsonLd, toJsonResume, toSchemaPerson, toVCard } from './ExportUtil';
+
+/**
+ * The formats the profile can be exported as.
+ *  - `vcard`: a vCard 4.0.
+ *  - `jsonresume`: a JSON Resume, with the organizations as work history.
+ *  - `jsonld`: the RDF of the profile as compact JSON-LD.
+ *  - `schema`: a schema.org `Person` in a script element, to embed in a web page.
+ */
+export type ProfileExportFormat = 'vcard' | 'jsonresume' | 'jsonld' | 'schema';
+
+/**
+ * How each format is rendered and downloaded.
+ */
+const EXPORT_FORMATS: Record<ProfileExportFormat, {
+  contentType: string;
+  filename: string;
+  render: (webId: string, profile: ProfileData, quads: Quad[]) => string;
+}> = {
+  vcard: {
+    contentType: 'text/vcard',
+    filename: 'profile.vcf',
+    render: (webId, profile): string => toVCard(webId, profile),
+  },
+  jsonresume: {
+    contentType: 'application/json',
+    filename: 'resume.json',
+    render: (webId, profile): string => JSON.stringify(toJsonResume(webId, profile), null, 2),
+  },
+  jsonld: {
+    contentType: 'application/ld+json',
+    filename: 'profile.jsonld',
+    render: (webId, profile, quads): string => JSON.stringify(toJsonLd(webId, quads), null, 2),
+  },
+  schema: {
+    contentType: 'text/html',
+    filename: 'person.html',
+    render: (webId, profile): string => toSchemaPerson(webId, profile),
+  },
+};
+
+/**
+ * Exports the profile in one of the formats of {@link ProfileExportFormat}, chosen with the POSTed `format`.
+ *
+ * The `visibility` field determines who the export is meant for, and defaults to `public`.
+ * Only the profile documents that audience can read are used,
+ * so fields that are visible to contacts or private are only exported when asked for explicitly.
+ * Texts with translations are exported in the language that best matches the `Accept-Language` header,
+ * except in JSON-LD, which contains all of them.
+ *
+ * The response contains the exported `content` as a string,
+ * together with the `contentType` and a `filename` to save it as.
+ */
+export class ProfileExportHandler extends JsonInteractionHandler implements JsonView {
+  private readonly logger = getLoggerFor(this);
+
+  private readonly profileHandler: ProfileHandler;
+
+  public constructor(profileHandler: ProfileHandler) {
+    super();
+    this.profileHandler = profileHandler;
+  }
+
+  public async getView(): Promise<JsonRepresentation> {
+    return { json: { format: 'string', visibility: 'string' }};
+  }
+
+  public async handle(input: JsonInteractionHandlerInput): Promise<JsonRepresentation> {
+    const { format, visibility = 'public' } = input.json as { format?: unknown; visibility?: unknown };
+    if (typeof format !== 'string' || !Object.keys(EXPORT_FORMATS).includes(format)) {
+      throw new BadRequestHttpError(`format must be one of ${Object.keys(EXPORT_FORMATS).join(', ')}`);
+    }
+    if (!isVisibility(visibility)) {
+      throw new BadRequestHttpError(`visibility must be one of ${VISIBILITY_LEVELS.join(', ')}`);
+    }
+
+    const { webId, profile, quads } = await this.profileHandler.readVisibleProfile(input, visibility);
+    const { contentType, filename, render } = EXPORT_FORMATS[format as ProfileExportFormat];
+    this.logger.debug(`Exporting the ${visibility} profile of ${webId} as ${format}`);
+
+    return { json: {
+      webId,
+      format,
+      visibility,
+      contentType,
+      filename,
+      content: render(webId, localizeProfile(profile, this.profileHandler.fields, getAcceptedLanguages(input.metadata)),
+        quads),
+    }};
+  }
+}
@@ -0,0 +1,302 @@
+import { DataFactory } from 'n3';
+import type { Literal, NamedNode, Term } from '@rdfjs/types';
+import { isUrl } from '@solid/community-server/dist/util/StringUtil';
+import type { Json } from '@solid/community-server/dist/util/Json';
+import Dict = NodeJS.Dict;
+import type { LocalizedText } from '../util/LanguageUtil';
+import { addLocalizedText, isLanguageKey, isLanguageMap, toLocalizedLiterals } from '../util/LanguageUtil';
+import type { ValidationError, ValidationErrorCode } from '../validation/ProfileValidator';
+
+/**
+ * The kinds of RDF terms a {@link ProfileField} can be stored as.
+ *  - `literal`: a plain string literal.
+ *  - `iri`: a named node, the JSON value needs to be a URL.
+ *  - `language`: a language-tagged literal.
+ *    A field with a single value and no fixed language has a value per language, as a language map.
+ *  - `typed`: a literal with the datatype of the field.
+ */
+export type ProfileFieldTermType = 'literal' | 'iri' | 'language' | 'typed';
+
+const TERM_TYPES: ProfileFieldTermType[] = [ 'literal', 'iri', 'language', 'typed' ];
+
+/**
+ * Maximum length of a value if the field does not set one.
+ */
+const DEFAULT_MAX_LENGTH = 2000;
+
+/**
+ * A language-tagged value, following the JSON-LD value object syntax.
+ */
+export interface LanguageValue {
+  '@value': string;
+  '@language': string;
+}
+
+export interface ProfileFieldArgs {
+  /**
+   * Key of the field in the profile JSON.
+   */
+  key: string;
+  /**
+   * Predicates linking the WebID to the values of this field.
+   * The first one is used when writing, all of them are read and replaced.
+   */
+  predicates: string[];
+  /**
+   * If the field can have multiple values, in which case the JSON value is an array.
+   * Defaults to `false`.
+   */
+  multiple?: boolean;
+  /**
+   * How the values are stored in RDF: `literal`, `iri`, `language` or `typed`.
+   * Defaults to `literal`.
+   */
+  termType?: string;
+  /**
+   * Datatype of the literals, required for the `typed` term type.
+   */
+  datatype?: string;
+  /**
+   * Language of the literals for the `language` term type,
+   * used when the JSON value is a string instead of a language value object.
+   * If not set, strings are stored as literals without language,
+   * and a field with a single value can have a value per language.
+   */
+  language?: string;
+  /**
+   * Regular expression each (string) value has to match.
+   */
+  pattern?: string;
+  /**
+   * Maximum number of characters of each value.
+   * Defaults to 2000.
+   */
+  maxLength?: number;
+  /**
+   * Error message in case a value is invalid, replacing the generated one.
+   */
+  message?: string;
+  /**
+   * Namespace the values are expected to come from, such as a language code list.
+   * Values outside of it are still accepted, but are reported in the profile report.
+   * If the {@link ProfileHandler} has a {@link Vocabulary} with this namespace,
+   * values inside of it need to be terms of that vocabulary.
+   */
+  vocabulary?: string;
+}
+
+/**
+ * Describes how a single field of the profile JSON maps to triples on the WebID.
+ * Instances of this class make up the field registry of the {@link ProfileHandler},
+ * so fields can be added or removed in the configuration.
+ */
+export class ProfileField {
+  public readonly key: string;
+  public readonly predicates: string[];
+  public readonly multiple: boolean;
+  public readonly termType: ProfileFieldTermType;
+  public readonly datatype?: string;
+  public readonly language?: string;
+  public readonly vocabulary?: string;
+  private readonly pattern?: RegExp;
+  private readonly maxLength: number;
+  private readonly message?: string;
+
+  public constructor(args: ProfileFieldArgs) {
+    if (args.predicates.length === 0) {
+      throw new Error(`Profile field ${args.key} needs at least one predicate.`);
+    }
+    const termType = (args.termType ?? 'literal') as ProfileFieldTermType;
+    if (!TERM_TYPES.includes(termType)) {
+      throw new Error(`Unsupported term type ${args.termType} for profile field ${args.key}.`);
+    }
+    if (termType === 'typed' && !args.datatype) {
+      throw new Error(`Profile field ${args.key} of term type typed needs a datatype.`);
+    }
+
+    this.key = args.key;
+    this.predicates = args.predicates;
+    this.multiple = args.multiple ?? false;
+    this.termType = termType;
+    this.datatype = args.datatype;
+    this.language = args.language;
+    this.vocabulary = args.vocabulary;
+    this.pattern = args.pattern ? new RegExp(args.pattern, 'u') : undefined;
+    this.maxLength = args.maxLength ?? DEFAULT_MAX_LENGTH;
+    this.message = args.message;
+  }
+
+  /**
+   * The predicate used when writing values.
+   */
+  public get predicate(): string {
+    return this.predicates[0];
+  }
+
+  /**
+   * If the field has a value per language, which is a string or a language map in the JSON,
+   * such as `{ "en": "Alice", "el": "Αλίκη" }`.
+   */
+  public get multilingual(): boolean {
+    return this.termType === 'language' && !this.multiple && !this.language;
+  }
+
+  /**
+   * Validates the JSON value of this field.
+   * Returns a list of errors, which is empty if the value is valid.
+   * The errors of the values of a field with multiple values point to the index of the value.
+   * `undefined`, `null` and empty strings are always valid as they remove the field.
+   */
+  public validate(value: unknown): ValidationError[] {
+    if (isEmpty(value)) {
+      return [];
+    }
+    if (this.multiple && !Array.isArray(value)) {
+      return [{ path: this.key, code: 'type', message: `${this.key} must be an array` }];
+    }
+    if (!this.multiple && Array.isArray(value)) {
+      return [{ path: this.key, code: 'type', message: `${this.key} must be a single value` }];
+    }
+
+    if (this.multilingual && isLanguageMap(value)) {
+      return this.validateLanguageMap(value);
+    }
+
+    const errors: ValidationError[] = [];
+    for (const [ index, entry ] of (this.multiple ? value as unknown[] : [ value ]).entries()) {
+      const error = isEmpty(entry) ? undefined : this.validateValue(entry);
+      if (error) {
+        errors.push({
+          path: this.multiple ? `${this.key}[${index}]` : this.key,
+          code: error.code,
+          message: this.message ?? error.message,
+        });
+      }
+    }
+    return errors;
+  }
+
+  /**
+   * Converts the JSON value of this field to the RDF terms to store.
+   * Should only be called with validated values.
+   */
+  public toTerms(value: unknown): Term[] {
+    if (isEmpty(value)) {
+      return [];
+    }
+    if (this.multilingual && isLanguageMap(value)) {
+      return toLocalizedLiterals(value);
+    }
+    const values = Array.isArray(value) ? value as unknown[] : [ value ];
+    return values.filter((entry): boolean => !isEmpty(entry)).map((entry): Term => this.toTerm(entry));
+  }
+
+  /**
+   * Converts an RDF term found in the profile to a JSON value.
+   * Returns `undefined` if the term does not fit this field,
+   * such as a literal in a different language.
+   */
+  public fromTerm(term: Term): Json | undefined {
+    switch (this.termType) {
+      case 'iri':
+        // Older profiles sometimes have URLs stored as literals
+        return term.termType === 'NamedNode' || isUrl(term.value) ? term.value : undefined;
+      case 'language':
+        if (term.termType !== 'Literal' || !term.language) {
+          return term.termType === 'Literal' && !this.language ? term.value : undefined;
+        }
+        if (this.language) {
+          return term.language === this.language ? term.value : undefined;
+        }
+        return { '@value': term.value, '@language': term.language };
+      default:
+        return term.termType === 'Literal' ? term.value : undefined;
+    }
+  }
+
+  /**
+   * Adds a value read with {@link fromTerm} to the JSON value found so far.
+   * Values of a field with multiple values are collected in a list,
+   * values in different languages of a multilingual field in a language map.
+   * Otherwise the last value wins.
+   */
+  public addValue(current: Json | undefined, value: Json): Json {
+    if (this.multiple) {
+      return [ ...(current ?? []) as Json[], value ];
+    }
+    if (this.multilingual && (typeof value === 'string' || isLanguageValue(value))) {
+      const localized = current as LocalizedText | undefined;
+      return typeof value === 'string' ?
+        addLocalizedText(localized, value) :
+        addLocalizedText(localized, value['@value'], value['@language']);
+    }
+    return value;
+  }
+
+  /**
+   * Checks if a value, that passed validation, comes from the vocabulary of this field.
+   * Always true if the field has no vocabulary.
+   */
+  public inVocabulary(value: unknown): boolean {
+    const text = isLanguageValue(value) ? value['@value'] : value;
+    return !this.vocabulary || (typeof text === 'string' && text.startsWith(this.vocabulary));
+  }
+
+  private validateLanguageMap(value: Dict<string>): ValidationError[] {
+    const errors: ValidationError[] = [];
+    for (const [ language, text ] of Object.entries(value)) {
+      const path = `${this.key}.${language}`;
+      if (!isLanguageKey(language)) {
+        errors.push({ path, code: 'language', message: `${path}: ${language} is not a valid language tag` });
+        continue;
+      }
+      const error = text ? this.validateValue(text) : undefined;
+      if (error) {
+        errors.push({ path, code: error.code, message: this.message ?? error.message });
+      }
+    }
+    return errors;
+  }
+
+  private validateValue(value: unknown): { code: ValidationErrorCode; message: string } | undefined {
+    const text = this.termType === 'language' && isLanguageValue(value) ? value['@value'] : value;
+
+    if (typeof text !== 'string') {
+      return { code: 'type', message: `${this.key} must contain strings` };
+    }
+    if (text.length > this.maxLength) {
+      return { code: 'maxLength', message: `${this.key} can not be longer than ${this.maxLength} characters` };
+    }
+    if (this.termType === 'iri' && !isUrl(text)) {
+      return { code: 'url', message: `Invalid URL in ${this.key}: ${text}` };
+    }
+    if (this.pattern && !this.pattern.test(text)) {
+      return { code: 'pattern', message: `${this.key} does not match ${this.pattern.source}` };
+    }
+  }
+
+  private toTerm(value: unknown): NamedNode | Literal {
+    switch (this.termType) {
+      case 'iri':
+        return DataFactory.namedNode(value as string);
+      case 'typed':
+        return DataFactory.literal(value as string, DataFactory.namedNode(this.datatype!));
+      case 'language':
+        if (isLanguageValue(value)) {
+          return DataFactory.literal(value['@value'], value['@language'].toLowerCase());
+        }
+        return DataFactory.literal(value as string, this.language);
+      default:
+        return DataFactory.literal(value as string);
+    }
+  }
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function isLanguageValue(value: unknown): value is LanguageValue {
+  return typeof value === 'object' && value !== null &&
+    typeof (value as LanguageValue)['@value'] === 'string' && typeof (value as LanguageValue)['@language'] === 'string';
+}
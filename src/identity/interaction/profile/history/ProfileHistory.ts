@@ -0,0 +1,136 @@
+import { Parser, Writer } from 'n3';
+import type { Quad } from '@rdfjs/types';
+import { getLoggerFor } from '@solid/community-server/dist/logging/LogUtil';
+import type { KeyValueStorage } from '@solid/community-server/dist/storage/keyvalue/KeyValueStorage';
+import { subtractQuads, uniqueQuads } from '../util/DiffUtil';
+
+/**
+ * The changes made to a single profile document.
+ */
+export interface DocumentPatch {
+  document: string;
+  deletes: Quad[];
+  inserts: Quad[];
+}
+
+/**
+ * A single update of a profile, consisting of the patches of all the documents that changed.
+ */
+export interface ProfileRevision {
+  id: string;
+  // ISO date of the update
+  date: string;
+  // Account that made the update, not set for updates made by the server, such as verified email addresses
+  accountId?: string;
+  patches: DocumentPatch[];
+}
+
+/**
+ * How a revision is stored, with the quads serialized as N-Triples.
+ */
+export type StoredRevision = {
+  id: string;
+  date: string;
+  accountId?: string;
+  patches: { document: string; deletes: string; inserts: string }[];
+};
+
+/**
+ * Records the patches applied to the profile documents of each WebID,
+ * so earlier versions of a profile can be compared and restored.
+ * Only the most recent revisions are kept.
+ */
+export class ProfileHistory {
+  protected readonly logger = getLoggerFor(this);
+
+  private readonly storage: KeyValueStorage<string, StoredRevision[]>;
+  private readonly maxRevisions: number;
+
+  /**
+   * @param storage - Stores the revisions, with the WebIDs as keys.
+   * @param maxRevisions - How many revisions are kept for each WebID. Defaults to 50.
+   */
+  public constructor(storage: KeyValueStorage<string, StoredRevision[]>, maxRevisions = 50) {
+    this.storage = storage;
+    this.maxRevisions = maxRevisions;
+  }
+
+  /**
+   * Adds a revision to the history of a WebID.
+   * Nothing is recorded if none of the patches changed anything.
+   *
+   * @param webId - WebID of the profile.
+   * @param patches - The changes that were applied.
+   * @param accountId - Account making the change.
+   */
+  public async record(webId: string, patches: DocumentPatch[], accountId?: string):
+  Promise<ProfileRevision | undefined> {
+    const changed = patches.filter((patch): boolean => patch.deletes.length > 0 || patch.inserts.length > 0);
+    if (changed.length === 0) {
+      return;
+    }
+    const stored = await this.storage.get(webId) ?? [];
+    const previousId = stored.length > 0 ? Number(stored[stored.length - 1].id) : 0;
+    const revision: ProfileRevision = {
+      id: String(previousId + 1),
+      date: new Date().toISOString(),
+      accountId,
+      patches: changed,
+    };
+    await this.storage.set(webId, [ ...stored, serializeRevision(revision) ].slice(-this.maxRevisions));
+    this.logger.debug(`Recorded revision ${revision.id} of the profile of ${webId}`);
+    return revision;
+  }
+
+  /**
+   * Returns the recorded revisions of a WebID, oldest first.
+   */
+  public async getRevisions(webId: string): Promise<ProfileRevision[]> {
+    const stored = await this.storage.get(webId) ?? [];
+    return stored.map(parseRevision);
+  }
+}
+
+/**
+ * Converts a revision to the JSON it is stored as, with the quads serialized as N-Triples.
+ */
+export function serializeRevision({ patches, ...revision }: ProfileRevision): StoredRevision {
+  const writer = new Writer({ format: 'N-Triples' });
+  return {
+    ...revision,
+    patches: patches.map(({ document, deletes, inserts }): StoredRevision['patches'][number] => ({
+      document,
+      deletes: writer.quadsToString(deletes),
+      inserts: writer.quadsToString(inserts),
+    })),
+  };
+}
+
+function parseRevision({ patches, ...revision }: StoredRevision): ProfileRevision {
+  // Keeps the blank node labels as they were, so the deletes and inserts of a revision can be matched
+  const parse = (data: string): Quad[] => new Parser({ format: 'N-Triples', blankNodePrefix: '' }).parse(data);
+  return {
+    ...revision,
+    patches: patches.map(({ document, deletes, inserts }): DocumentPatch =>
+      ({ document, deletes: parse(deletes), inserts: parse(inserts) })),
+  };
+}
+
+/**
+ * Reconstructs the contents of a document before the given revisions were applied,
+ * by inverting their patches, newest first.
+ * Changes made outside of the profile handler, for example in Mashlib, are kept.
+ *
+ * @param document - URL of the document.
+ * @param quads - The current quads of the document.
+ * @param revisions - The revisions to undo, oldest first.
+ */
+export function undoRevisions(document: string, quads: Quad[], revisions: ProfileRevision[]): Quad[] {
+  let result = quads;
+  for (const revision of [ ...revisions ].reverse()) {
+    for (const patch of revision.patches.filter((entry): boolean => entry.document === document)) {
+      result = uniqueQuads([ ...subtractQuads(result, patch.inserts), ...patch.deletes ]);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,42 @@
+import type { JsonRepresentation } from '@solid/community-server/dist/identity/interaction/InteractionUtil';
+import type { JsonInteractionHandlerInput } from '@solid/community-server/dist/identity/interaction/JsonInteractionHandler';
+import { JsonInteractionHandler } from '@solid/community-server/dist/identity/interaction/JsonInteractionHandler';
+import type { JsonView } from '@solid/community-server/dist/identity/interaction/JsonView';
+import { BadRequestHttpError } from '@solid/community-server/dist/util/errors/BadRequestHttpError';
+import type { ProfileHandler } from '../ProfileHandler';
+
+/**
+ * Shows the edit history of the profile.
+ * The view lists the revisions, newest first, with the fields each of them changed.
+ *
+ * POSTing the IDs of two revisions as `from` and `to` compares the profile as it was after each of them.
+ * If `to` is not set, `from` is compared with the current profile.
+ * Without `from`, the POST returns the list of the view, which allows choosing the WebID with a `webId` field.
+ */
+export class ProfileHistoryHandler extends JsonInteractionHandler implements JsonView {
+  private readonly profileHandler: ProfileHandler;
+
+  public constructor(profileHandler: ProfileHandler) {
+    super();
+    this.profileHandler = profileHandler;
+  }
+
+  public async getView(input: JsonInteractionHandlerInput): Promise<JsonRepresentation> {
+    return { json: await this.profileHandler.listRevisions(input) };
+  }
+
+  public async handle(input: JsonInteractionHandlerInput): Promise<JsonRepresentation> {
+    const { from, to } = input.json as { from?: unknown; to?: unknown };
+    if (from === undefined) {
+      return this.getView(input);
+    }
+    if (typeof from !== 'string') {
+      throw new BadRequestHttpError('from must be the ID of a revision');
+    }
+    if (to !== undefined && typeof to !== 'string') {
+      throw new BadRequestHttpError('to must be the ID of a revision');
+    }
+    const { webId, changes } = await this.profileHandler.compareRevisions(input, from, to);
+    return { json: { webId, from, to, changes }};
+  }
+}
@@ -0,0 +1,37 @@
+import { getLoggerFor } from '@solid/community-server/dist/logging/LogUtil';
+import type { JsonRepresentation } from '@solid/community-server/dist/identity/interaction/InteractionUtil';
+import type { JsonInteractionHandlerInput } from '@solid/community-server/dist/identity/interaction/JsonInteractionHandler';
+import { JsonInteractionHandler } from '@solid/community-server/dist/identity/interaction/JsonInteractionHandler';
+import type { JsonView } from '@solid/community-server/dist/identity/interaction/JsonView';
+import { BadRequestHttpError } from '@solid/community-server/dist/util/errors/BadRequestHttpError';
+import type { ProfileHandler } from '../ProfileHandler';
+
+/**
+ * Reverts the profile to how it was right after the POSTed `revision`.
+ * The response contains the restored `profile` and its new `version`,
+ * together with the ID of the `revision` recording the revert.
+ */
+export class ProfileRevertHandler extends JsonInteractionHandler implements JsonView {
+  private readonly logger = getLoggerFor(this);
+
+  private readonly profileHandler: ProfileHandler;
+
+  public constructor(profileHandler: ProfileHandler) {
+    super();
+    this.profileHandler = profileHandler;
+  }
+
+  public async getView(): Promise<JsonRepresentation> {
+    return { json: { revision: 'string' }};
+  }
+
+  public async handle(input: JsonInteractionHandlerInput): Promise<JsonRepresentation> {
+    const { revision } = input.json as { revision?: unknown };
+    if (typeof revision !== 'string') {
+      throw new BadRequestHttpError('revision must be the ID of a revision');
+    }
+    const { webId, revision: recorded, version, profile } = await this.profileHandler.revert(input, revision);
+    this.logger.debug(`Revert of ${webId} to revision ${revision} recorded as ${recorded?.id ?? 'no change'}`);
+    return { json: { webId, revision: recorded?.id, version, profile }};
+  }
+}
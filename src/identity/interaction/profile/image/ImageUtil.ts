@@ -0,0 +1,43 @@
+/**
+ * Signatures of the image formats accepted as profile photo.
+ * `undefined` entries match any byte.
+ */
+const SIGNATURES: { contentType: string; bytes: (number | undefined)[] }[] = [
+  { contentType: 'image/jpeg', bytes: [ 0xFF, 0xD8, 0xFF ]},
+  { contentType: 'image/png', bytes: [ 0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A ]},
+  // GIF87a and GIF89a
+  { contentType: 'image/gif', bytes: [ 0x47, 0x49, 0x46, 0x38, undefined, 0x61 ]},
+  // RIFF....WEBP
+  { contentType: 'image/webp', bytes: [ 0x52, 0x49, 0x46, 0x46, undefined, undefined, undefined, undefined,
+    0x57, 0x45, 0x42, 0x50 ]},
+];
+
+/**
+ * File extensions used when storing images of the given content type.
+ */
+export const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
+/**
+ * Determines the content type of an image based on its first bytes,
+ * ignoring whatever type the client claims it to be.
+ * Returns `undefined` if the data is not one of the supported image formats.
+ */
+export function sniffImageType(data: Buffer): string | undefined {
+  const match = SIGNATURES.find(({ bytes }): boolean => data.length >= bytes.length &&
+    bytes.every((byte, idx): boolean => byte === undefined || data[idx] === byte));
+  return match?.contentType;
+}
+
+/**
+ * Decodes a base64 data URI.
+ * Returns `undefined` if the input is not a base64 data URI.
+ */
+export function decodeDataUri(uri: string): Buffer | undefined {
+  const match = /^data:[^,;]*(?:;[^,;]*)*;base64,(.*)$/su.exec(uri);
+  return match ? Buffer.from(match[1], 'base64') : undefined;
+}
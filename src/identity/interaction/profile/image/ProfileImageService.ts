@@ -0,0 +1,246 @@
+import type { Readable } from 'node:stream';
+import sharp from 'sharp';
+import { v4 } from 'uuid';
+import { getLoggerFor } from '@solid/community-server/dist/logging/LogUtil';
+import { BasicRepresentation } from '@solid/community-server/dist/http/representation/BasicRepresentation';
+import type { ResourceIdentifier } from '@solid/community-server/dist/http/representation/ResourceIdentifier';
+import type { StorageLocationStrategy } from '@solid/community-server/dist/server/description/StorageLocationStrategy';
+import type { ResourceStore } from '@solid/community-server/dist/storage/ResourceStore';
+import { BadRequestHttpError } from '@solid/community-server/dist/util/errors/BadRequestHttpError';
+import { createErrorMessage } from '@solid/community-server/dist/util/errors/ErrorUtil';
+import { NotFoundHttpError } from '@solid/community-server/dist/util/errors/NotFoundHttpError';
+import { PayloadHttpError } from '@solid/community-server/dist/util/errors/PayloadHttpError';
+import { UnsupportedMediaTypeHttpError } from '@solid/community-server/dist/util/errors/UnsupportedMediaTypeHttpError';
+import { ensureTrailingSlash, joinUrl } from '@solid/community-server/dist/util/PathUtil';
+import { guardedStreamFrom } from '@solid/community-server/dist/util/StreamUtil';
+import { IMAGE_EXTENSIONS, decodeDataUri, sniffImageType } from './ImageUtil';
+
+const THUMBNAIL_SUFFIX = '-thumbnail';
+
+/**
+ * Matches the names of the images created by this class, and by older versions of the profile handler.
+ */
+const IMAGE_NAME = /^[\da-f]{8}-[\da-f]{4}-[\da-f]{4}-[\da-f]{4}-[\da-f]{12}\.(?:jpe?g|png|gif|webp)$/u;
+
+export interface ProfileImageServiceArgs {
+  /**
+   * Store the images are written to.
+   */
+  resourceStore: ResourceStore;
+  /**
+   * Used to find the storage of the WebID, which is where the images are stored.
+   */
+  storageStrategy: StorageLocationStrategy;
+  /**
+   * Container relative to the storage root where images are stored.
+   * Defaults to `profile/images/`.
+   */
+  container?: string;
+  /**
+   * Maximum size of an uploaded image in bytes.
+   * Defaults to 5 MB.
+   */
+  maxSize?: number;
+  /**
+   * Maximum number of pixels of an uploaded image, summed over all frames, to prevent decompression bombs.
+   * Defaults to 25 megapixels.
+   */
+  maxPixels?: number;
+  /**
+   * Images that are wider or higher are scaled down to fit.
+   * Defaults to 1024.
+   */
+  maxDimension?: number;
+  /**
+   * Width and height of the generated thumbnail.
+   * Defaults to 128.
+   */
+  thumbnailSize?: number;
+}
+
+/**
+ * Stores uploaded profile photos in the pod of the WebID.
+ * Photos can be uploaded as base64 data URI, or as binary stream.
+ *
+ * The actual image type is determined from the content instead of trusting the data URI.
+ * Images are re-encoded, which removes all metadata such as EXIF and GPS data,
+ * after rotating them based on their orientation and scaling them down if needed.
+ * Next to each photo a square thumbnail is stored, with the same name and a `-thumbnail` suffix.
+ *
+ * Binary uploads are not streamed straight into the {@link ResourceStore}, as only the re-encoded image is stored:
+ * sharp needs the complete image to check its dimensions and decode it,
+ * so the stream is read into memory, up to `maxSize`.
+ */
+export class ProfileImageService {
+  protected readonly logger = getLoggerFor(this);
+
+  private readonly resourceStore: ResourceStore;
+  private readonly storageStrategy: StorageLocationStrategy;
+  private readonly container: string;
+  private readonly maxSize: number;
+  private readonly maxPixels: number;
+  private readonly maxDimension: number;
+  private readonly thumbnailSize: number;
+
+  public constructor(args: ProfileImageServiceArgs) {
+    this.resourceStore = args.resourceStore;
+    this.storageStrategy = args.storageStrategy;
+    this.container = ensureTrailingSlash(args.container ?? 'profile/images/');
+    this.maxSize = args.maxSize ?? 5 * 1024 * 1024;
+    this.maxPixels = args.maxPixels ?? 25_000_000;
+    this.maxDimension = args.maxDimension ?? 1024;
+    this.thumbnailSize = args.thumbnailSize ?? 128;
+  }
+
+  /**
+   * Stores the image as photo of the given WebID.
+   * Returns the URL of the stored photo.
+   *
+   * @param webId - WebID the photo belongs to.
+   * @param image - Base64 data URI or binary stream containing the image.
+   */
+  public async upload(webId: string, image: string | Readable): Promise<string> {
+    const data = typeof image === 'string' ? decodeDataUri(image) : await this.readImage(image);
+    if (!data) {
+      throw new BadRequestHttpError('The photo needs to be a base64 data URI.');
+    }
+    if (data.length > this.maxSize) {
+      throw new PayloadHttpError(`The photo is larger than the maximum of ${this.maxSize} bytes.`);
+    }
+    const contentType = sniffImageType(data);
+    if (!contentType) {
+      throw new UnsupportedMediaTypeHttpError(
+        `The photo needs to be one of ${Object.keys(IMAGE_EXTENSIONS).join(', ')}.`,
+      );
+    }
+
+    const { photo, thumbnail } = await this.processImage(data, contentType);
+
+    const name = `${v4()}.${IMAGE_EXTENSIONS[contentType]}`;
+    const photoUrl = joinUrl(await this.getContainer(webId), name);
+    await this.writeImage({ path: photoUrl }, photo, contentType);
+    await this.writeImage({ path: this.getThumbnailUrl(photoUrl)! }, thumbnail, contentType);
+    this.logger.debug(`Uploaded profile image to ${photoUrl}`);
+    return photoUrl;
+  }
+
+  /**
+   * Returns the URL of the thumbnail of the given photo,
+   * or `undefined` if the photo was not uploaded through this class.
+   */
+  public getThumbnailUrl(photoUrl: string): string | undefined {
+    const name = photoUrl.slice(photoUrl.lastIndexOf('/') + 1);
+    if (!IMAGE_NAME.test(name)) {
+      return;
+    }
+    const extension = name.lastIndexOf('.');
+    return `${photoUrl.slice(0, photoUrl.length - name.length)}${name.slice(0, extension)}${THUMBNAIL_SUFFIX}${
+      name.slice(extension)}`;
+  }
+
+  /**
+   * Checks if the given photo is an image in the storage of the WebID that was uploaded as profile photo.
+   */
+  public async isUploadedImage(webId: string, photoUrl: string): Promise<boolean> {
+    let container: string;
+    try {
+      container = await this.getContainer(webId);
+    } catch {
+      return false;
+    }
+    return photoUrl.startsWith(container) && IMAGE_NAME.test(photoUrl.slice(container.length));
+  }
+
+  /**
+   * Deletes the given photo and its thumbnail, in case it was uploaded as profile photo of the WebID.
+   * Other photos, such as external URLs, are left untouched.
+   * Failures are logged but not thrown, as they should not prevent the profile from being updated.
+   */
+  public async delete(webId: string, photoUrl: string): Promise<void> {
+    if (!await this.isUploadedImage(webId, photoUrl)) {
+      return;
+    }
+    for (const path of [ photoUrl, this.getThumbnailUrl(photoUrl)! ]) {
+      try {
+        await this.resourceStore.deleteResource({ path });
+        this.logger.debug(`Deleted profile image ${path}`);
+      } catch (error: unknown) {
+        if (!NotFoundHttpError.isInstance(error)) {
+          this.logger.warn(`Unable to delete profile image ${path}: ${createErrorMessage(error)}`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Reads the image from the stream.
+   * In case the image is too large, the rest of the stream is discarded instead of kept in memory.
+   * Reading continues in that case, so the remainder of the request the stream is part of can still be handled.
+   */
+  private async readImage(stream: Readable): Promise<Buffer> {
+    return new Promise((resolve, reject): void => {
+      let chunks: Buffer[] | undefined = [];
+      let size = 0;
+      stream.on('data', (chunk: Buffer): void => {
+        size += chunk.length;
+        if (chunks && size > this.maxSize) {
+          chunks = undefined;
+          reject(new PayloadHttpError(`The photo is larger than the maximum of ${this.maxSize} bytes.`));
+        }
+        chunks?.push(chunk);
+      });
+      stream.on('end', (): void => resolve(Buffer.concat(chunks ?? [])));
+      stream.on('error', reject);
+    });
+  }
+
+  /**
+   * Validates the dimensions of the image and generates the photo and thumbnail to store.
+   * As sharp does not copy metadata to the output unless asked, this also removes EXIF and GPS data.
+   */
+  private async processImage(data: Buffer, contentType: string): Promise<{ photo: Buffer; thumbnail: Buffer }> {
+    const format = IMAGE_EXTENSIONS[contentType] === 'jpg' ? 'jpeg' : IMAGE_EXTENSIONS[contentType];
+    // Keep all frames of animations
+    const options: sharp.SharpOptions = { animated: contentType === 'image/gif' || contentType === 'image/webp' };
+
+    try {
+      // Only reads the header, so this is safe to do before checking the dimensions
+      const { width = 0, height = 0, pages = 1 } = await sharp(data).metadata();
+      if (width * height * pages > this.maxPixels) {
+        throw new PayloadHttpError(`The photo is larger than the maximum of ${this.maxPixels} pixels.`);
+      }
+
+      const photo = await sharp(data, options)
+        .rotate()
+        .resize({ width: this.maxDimension, height: this.maxDimension, fit: 'inside', withoutEnlargement: true })
+        .toFormat(format as keyof sharp.FormatEnum)
+        .toBuffer();
+      const thumbnail = await sharp(data, options)
+        .rotate()
+        .resize({ width: this.thumbnailSize, height: this.thumbnailSize, fit: 'cover' })
+        .toFormat(format as keyof sharp.FormatEnum)
+        .toBuffer();
+      return { photo, thumbnail };
+    } catch (error: unknown) {
+      if (PayloadHttpError.isInstance(error)) {
+        throw error;
+      }
+      throw new BadRequestHttpError(`The photo could not be processed: ${createErrorMessage(error)}`, { cause: error });
+    }
+  }
+
+  /**
+   * Finds the container where the images of the given WebID are stored,
+   * based on the storage the WebID is located in.
+   */
+  private async getContainer(webId: string): Promise<string> {
+    const profileDocument = webId.split('#')[0];
+    const storage = await this.storageStrategy.getStorageIdentifier({ path: profileDocument });
+    return joinUrl(storage.path, this.container);
+  }
+
+  private async writeImage(identifier: ResourceIdentifier, data: Buffer, contentType: string): Promise<void> {
+    await this.resourceStore.setRepresentation(identifier,
+      new BasicRepresentation(guardedStreamFrom(data), identifier, contentType, true));
+  }
+}
@@ -0,0 +1,336 @@
+import { BadRequestHttpError } from '@solid/community-server/dist/util/errors/BadRequestHttpError';
+import { findCountryCode } from '../address/CountryUtil';
+import { normalizePhoneNumber } from '../phone/PhoneUtil';
+import type { ProfileData } from '../ProfileHandler';
+
+type EmailEntry = NonNullable<ProfileData['emails']>[number];
+type PhoneEntry = NonNullable<ProfileData['phones']>[number];
+type AddressEntry = NonNullable<ProfileData['addresses']>[number];
+type AccountEntry = NonNullable<ProfileData['accounts']>[number];
+type OrganizationEntry = NonNullable<ProfileData['organizations']>[number];
+
+/**
+ * A property line of a vCard, such as `EMAIL;TYPE=work:alice@example.com`.
+ */
+interface VCardProperty {
+  name: string;
+  params: Record<string, string[]>;
+  value: string;
+}
+
+/**
+ * Parses the property lines of the first vCard in the text.
+ * Lines are unfolded first, groups such as `item1.` in `item1.EMAIL` are ignored.
+ */
+function parseVCardProperties(text: string): VCardProperty[] {
+  const lines = text.replace(/\r?\n[\t ]/gu, '').split(/\r?\n/u);
+  const start = lines.findIndex((line): boolean => line.trim().toUpperCase() === 'BEGIN:VCARD');
+  if (start < 0) {
+    throw new BadRequestHttpError('The imported data is not a vCard.');
+  }
+
+  const properties: VCardProperty[] = [];
+  for (const line of lines.slice(start + 1)) {
+    if (line.trim().toUpperCase() === 'END:VCARD') {
+      break;
+    }
+    const match = /^(?:[\w-]+\.)?([\w-]+)((?:;[^:]*)?):(.*)$/u.exec(line);
+    if (!match) {
+      continue;
+    }
+    const params: Record<string, string[]> = {};
+    for (const param of match[2].split(';').filter((entry): boolean => entry.length > 0)) {
+      const [ key, value ] = param.includes('=') ? param.split('=', 2) : [ 'TYPE', param ];
+      const values = value.replace(/"/gu, '').split(',').map((entry): string => entry.toLowerCase());
+      params[key.toUpperCase()] = [ ...params[key.toUpperCase()] ?? [], ...values ];
+    }
+    properties.push({ name: match[1].toUpperCase(), params, value: match[3] });
+  }
+  return properties;
+}
+
+/**
+ * Splits a structured vCard value, such as the components of `N`, on the unescaped separator.
+ */
+function splitVCardValue(value: string, separator: ',' | ';'): string[] {
+  return value.split(separator === ';' ? /(?<!\\);/u : /(?<!\\),/u).map(unescapeVCardValue);
+}
+
+function unescapeVCardValue(value: string): string {
+  return value.replace(/\\([\\,;nN])/gu, (match, char: string): string => char.toLowerCase() === 'n' ? '\n' : char);
+}
+
+/**
+ * Converts the vCard type of an email or postal address to the vCard class used in the profile.
+ */
+function getEmailType(types: string[]): string | undefined {
+  if (types.includes('work')) {
+    return 'Work';
+  }
+  if (types.includes('home')) {
+    return 'Home';
+  }
+}
+
+/**
+ * vCard types of phone numbers and the vCard classes they correspond to.
+ */
+const PHONE_TYPES: Record<string, string> = {
+  cell: 'Cell',
+  work: 'Work',
+  home: 'Home',
+  fax: 'Fax',
+  pager: 'Pager',
+  text: 'Text',
+  video: 'Video',
+};
+
+/**
+ * Converts the vCard types of a phone number to the vCard class used in the profile.
+ * Cell is preferred, as numbers are often typed as both a cell and a work or home number.
+ */
+function getPhoneType(types: string[]): string | undefined {
+  const type = Object.keys(PHONE_TYPES).find((entry): boolean => types.includes(entry));
+  return type ? PHONE_TYPES[type] : undefined;
+}
+
+/**
+ * Creates an address from its imported parts, with the country as code if it is recognized.
+ * Imported addresses are private, so they only become public when the user chooses so.
+ */
+function createAddress(parts: Omit<AddressEntry, 'id' | 'visibility'>): AddressEntry | undefined {
+  const entry = Object.fromEntries(Object.entries(parts).filter(([ , value ]): boolean => Boolean(value)));
+  if (Object.keys(entry).length === 0 || (Object.keys(entry).length === 1 && entry.type)) {
+    return;
+  }
+  if (entry.country) {
+    entry.country = findCountryCode(entry.country) ?? entry.country;
+  }
+  return { ...entry, visibility: 'private' };
+}
+
+/**
+ * Converts a vCard, as exported by most address books, to profile data.
+ * The name, nickname, phone numbers, email and postal addresses, photo, homepage and current organization
+ * are imported.
+ * A photo embedded in the vCard becomes a base64 data URI, which is uploaded when the profile is saved.
+ */
+export function parseVCard(text: string): ProfileData {
+  const properties = parseVCardProperties(text);
+  const find = (name: string): VCardProperty | undefined =>
+    properties.find((property): boolean => property.name === name);
+  const profile: ProfileData = {};
+
+  const name = find('FN');
+  if (name) {
+    profile.name = unescapeVCardValue(name.value).trim();
+  } else if (find('N')) {
+    const [ family, given ] = splitVCardValue(find('N')!.value, ';');
+    profile.name = [ given, family ].filter(Boolean).join(' ');
+  }
+
+  const nickname = find('NICKNAME');
+  if (nickname) {
+    profile.nickname = splitVCardValue(nickname.value, ',')[0].trim();
+  }
+
+  const phones: PhoneEntry[] = [];
+  for (const property of properties.filter((entry): boolean => entry.name === 'TEL')) {
+    const value = unescapeVCardValue(property.value).replace(/^tel:/u, '').trim();
+    const phone = normalizePhoneNumber(value) ?? value;
+    if (phone && !phones.some((entry): boolean => entry.phone === phone)) {
+      phones.push({ phone, type: getPhoneType(property.params.TYPE ?? []) });
+    }
+  }
+  if (phones.length > 0) {
+    profile.phones = phones;
+  }
+
+  const addresses: AddressEntry[] = [];
+  for (const property of properties.filter((entry): boolean => entry.name === 'ADR')) {
+    // The post office box and extended address are added to the street address
+    const [ box, extended, street, locality, region, postalCode, country ] = splitVCardValue(property.value, ';')
+      .map((value): string => value.trim());
+    const address = createAddress({
+      type: getEmailType(property.params.TYPE ?? []),
+      streetAddress: [ box, extended, street ].filter(Boolean).join('\n'),
+      locality,
+      region,
+      postalCode,
+      country,
+    });
+    if (address) {
+      addresses.push(address);
+    }
+  }
+  if (addresses.length > 0) {
+    profile.addresses = addresses;
+  }
+
+  const emails: EmailEntry[] = [];
+  for (const property of properties.filter((entry): boolean => entry.name === 'EMAIL')) {
+    const email = unescapeVCardValue(property.value).replace(/^mailto:/u, '').trim();
+    if (email && !emails.some((entry): boolean => entry.email.toLowerCase() === email.toLowerCase())) {
+      emails.push({ email, type: getEmailType(property.params.TYPE ?? []) });
+    }
+  }
+  if (emails.length > 0) {
+    profile.emails = emails;
+  }
+
+  const photo = find('PHOTO');
+  if (photo) {
+    const encoding = photo.params.ENCODING?.[0];
+    if (encoding === 'b' || encoding === 'base64') {
+      // vCard 3 embeds photos with an encoding parameter instead of as data URI
+      const format = photo.params.TYPE?.find((type): boolean => type !== 'pref') ?? 'jpeg';
+      profile.photo = `data:image/${format.replace(/^image\//u, '')};base64,${photo.value.replace(/\s/gu, '')}`;
+    } else if (/^(?:https?:|data:image\/)/u.test(photo.value)) {
+      profile.photo = photo.value;
+    }
+  }
+
+  const url = find('URL');
+  if (url) {
+    profile.homepage = unescapeVCardValue(url.value).trim();
+  }
+
+  const organization = find('ORG');
+  const role = find('TITLE') ?? find('ROLE');
+  if (organization ?? role) {
+    const entry: OrganizationEntry = { roleType: 'CurrentRole' };
+    if (organization) {
+      entry.organizationName = splitVCardValue(organization.value, ';')[0].trim();
+    }
+    if (role) {
+      entry.role = unescapeVCardValue(role.value).trim();
+    }
+    profile.organizations = [ entry ];
+  }
+
+  return profile;
+}
+
+/**
+ * Account types of the profile for the `network` names used in JSON Resume profiles.
+ */
+const NETWORK_ACCOUNT_TYPES: Record<string, string> = {
+  bluesky: 'BlueSkyAccount',
+  twitter: 'TwitterAccount',
+  x: 'TwitterAccount',
+  mastodon: 'MastodonAccount',
+  linkedin: 'LinkedInAccount',
+  github: 'GithubAccount',
+  facebook: 'FacebookAccount',
+  instagram: 'InstagramAccount',
+};
+
+function getString(object: Record<string, unknown>, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = object[key];
+    if (typeof value === 'string' && value.trim().length > 0) {
+      return value.trim();
+    }
+  }
+}
+
+function getObjects(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value) ?
+    value.filter((entry): boolean => typeof entry === 'object' && entry !== null) as Record<string, unknown>[] :
+      [];
+}
+
+/**
+ * Determines if a role is current, past or in the future, based on its ISO 8601 dates.
+ * Dates that only contain a year or month are compared as such.
+ */
+function getRoleType(startDate: string | undefined, endDate: string | undefined): OrganizationEntry['roleType'] {
+  const today = new Date().toISOString().slice(0, 10);
+  if (startDate && startDate.localeCompare(today.slice(0, startDate.length)) > 0) {
+    return 'FutureRole';
+  }
+  if (endDate && endDate.localeCompare(today.slice(0, endDate.length)) < 0) {
+    return 'PastRole';
+  }
+  return 'CurrentRole';
+}
+
+/**
+ * Converts a [JSON Resume](https://jsonresume.org/schema) to profile data.
+ * The `basics` provide the name, email address, phone number, location, photo, homepage and accounts,
+ * the `work` entries become organizations with a role type based on their dates.
+ */
+export function parseJsonResume(resume: unknown): ProfileData {
+  if (typeof resume !== 'object' || resume === null || Array.isArray(resume)) {
+    throw new BadRequestHttpError('The imported data is not a JSON Resume.');
+  }
+  const { basics, work } = resume as Record<string, unknown>;
+  const profile: ProfileData = {};
+
+  if (typeof basics === 'object' && basics !== null) {
+    const info = basics as Record<string, unknown>;
+    profile.name = getString(info, 'name');
+    const phone = getString(info, 'phone');
+    if (phone) {
+      profile.phones = [{ phone: normalizePhoneNumber(phone) ?? phone }];
+    }
+    profile.photo = getString(info, 'image', 'picture');
+    profile.homepage = getString(info, 'url', 'website');
+    const email = getString(info, 'email');
+    if (email) {
+      profile.emails = [{ email }];
+    }
+    if (typeof info.location === 'object' && info.location !== null) {
+      const location = info.location as Record<string, unknown>;
+      const address = createAddress({
+        streetAddress: getString(location, 'address'),
+        locality: getString(location, 'city'),
+        region: getString(location, 'region'),
+        postalCode: getString(location, 'postalCode'),
+        country: getString(location, 'countryCode'),
+      });
+      if (address) {
+        profile.addresses = [ address ];
+      }
+    }
+
+    const accounts: AccountEntry[] = [];
+    for (const entry of getObjects(info.profiles)) {
+      const network = getString(entry, 'network');
+      const accountName = getString(entry, 'username', 'url');
+      if (!accountName) {
+        continue;
+      }
+      const type = network ? NETWORK_ACCOUNT_TYPES[network.toLowerCase()] : undefined;
+      accounts.push(type ? { type, accountName } : { type: 'OtherAccount', accountName, label: network });
+    }
+    if (accounts.length > 0) {
+      profile.accounts = accounts;
+    }
+  }
+
+  const organizations: OrganizationEntry[] = [];
+  for (const entry of getObjects(work)) {
+    // Older versions of the schema use `company` instead of `name`
+    const organizationName = getString(entry, 'name', 'company');
+    const role = getString(entry, 'position');
+    if (!organizationName && !role) {
+      continue;
+    }
+    const startDate = getString(entry, 'startDate');
+    const endDate = getString(entry, 'endDate');
+    organizations.push({
+      organizationName,
+      role,
+      startDate,
+      endDate,
+      description: getString(entry, 'summary', 'description'),
+      roleType: getRoleType(startDate, endDate),
+    });
+  }
+  if (organizations.length > 0) {
+    profile.organizations = organizations;
+  }
+
+  return profile;
+}
@@ -0,0 +1,274 @@
+import { Parser } from 'n3';
+import type { Quad } from '@rdfjs/types';
+import { getLoggerFor } from '@solid/community-server/dist/logging/LogUtil';
+import type { JsonRepresentation } from '@solid/community-server/dist/identity/interaction/InteractionUtil';
+import { JsonInteractionHandler } from '@solid/community-server/dist/identity/interaction/JsonInteractionHandler';
+import type { JsonView } from '@solid/community-server/dist/identity/interaction/JsonView';
+import { BadRequestHttpError } from '@solid/community-server/dist/util/errors/BadRequestHttpError';
+import { createErrorMessage } from '@solid/community-server/dist/util/errors/ErrorUtil';
+import type { Json } from '@solid/community-server/dist/util/Json';
+import { readableToString } from '@solid/community-server/dist/util/StreamUtil';
+import Dict = NodeJS.Dict;
+import type { MultipartInteractionHandlerInput } from '../../MultipartConversionHandler';
+import { isCountryCode } from '../address/CountryUtil';
+import { normalizePhoneNumber } from '../phone/PhoneUtil';
+import type { ProfileData, ProfileHandler } from '../ProfileHandler';
+import { extractProfileFromQuads } from '../ProfileHandler';
+import { parseJsonResume, parseVCard } from './ImportUtil';
+
+const FOAF = 'http://xmlns.com/foaf/0.1/';
+const SCHEMA = 'http://schema.org/';
+const RDF = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
+
+/**
+ * The formats that can be imported.
+ *  - `vcard`: a vCard (.vcf) file.
+ *  - `jsonresume`: a JSON Resume file.
+ *  - `turtle`: a FOAF or vCard profile in Turtle, such as a WebID profile document from another Solid server.
+ */
+export type ProfileImportFormat = 'vcard' | 'jsonresume' | 'turtle';
+
+const IMPORT_FORMATS: ProfileImportFormat[] = [ 'vcard', 'jsonresume', 'turtle' ];
+
+/**
+ * Formats of uploaded files, based on their content type.
+ */
+const CONTENT_TYPE_FORMATS: Record<string, ProfileImportFormat> = {
+  'text/vcard': 'vcard',
+  'text/x-vcard': 'vcard',
+  'application/json': 'jsonresume',
+  'text/turtle': 'turtle',
+  'application/n-triples': 'turtle',
+};
+
+/**
+ * Classes identifying the person a document is about, in case it has no `foaf:primaryTopic`.
+ */
+const PERSON_CLASSES = [ `${FOAF}Person`, `${SCHEMA}Person` ];
+
+/**
+ * How a part of the profile would change by importing.
+ */
+export type ProfileImportChange = {
+  key: string;
+  /**
+   * Not set if the profile has no value yet.
+   */
+  current?: Json;
+  proposed: Json;
+};
+
+/**
+ * Determines when two entries of a list in the profile are the same, so they are not imported twice.
+ */
+const ENTRY_KEYS: Record<string, (entry: Dict<Json>) => string> = {
+  emails: (entry): string => String(entry.email).toLowerCase(),
+  phones: (entry): string => String(entry.phone),
+  addresses: (entry): string => [ entry.streetAddress, entry.locality, entry.postalCode, entry.country ].join('\n')
+    .toLowerCase(),
+  accounts: (entry): string => `${entry.type}\n${entry.accountName}`.toLowerCase(),
+  organizations: (entry): string => `${entry.organizationName ?? entry.organization}\n${entry.role}`.toLowerCase(),
+};
+
+/**
+ * Converts a vCard, JSON Resume or Turtle profile into profile data, see {@link ProfileImportFormat}.
+ * The data to import is POSTed as `content` string, or uploaded as file in a multipart body.
+ * The `format` is detected if it is not set.
+ * For Turtle, the `source` field can be used to choose the WebID of which the profile is imported.
+ *
+ * Nothing is stored: the response contains the `profile` as it would be after importing,
+ * together with the `changes` compared to the current profile and its `version`,
+ * so the client can show a preview before saving the profile through the {@link ProfileHandler}.
+ * Lists, such as the organizations, are extended with the imported entries, other values are replaced.
+ * Imported values that are not valid for their field are left out and listed as `skipped`.
+ */
+export class ProfileImportHandler extends JsonInteractionHandler implements JsonView {
+  private readonly logger = getLoggerFor(this);
+
+  private readonly profileHandler: ProfileHandler;
+
+  public constructor(profileHandler: ProfileHandler) {
+    super();
+    this.profileHandler = profileHandler;
+  }
+
+  public async getView(): Promise<JsonRepresentation> {
+    return { json: { content: 'string', format: 'string', source: 'string' }};
+  }
+
+  public async handle(input: MultipartInteractionHandlerInput): Promise<JsonRepresentation> {
+    const { json, file } = input;
+    const { content, format, source } = json as { content?: unknown; format?: unknown; source?: unknown };
+    if (format !== undefined && !IMPORT_FORMATS.includes(format as ProfileImportFormat)) {
+      throw new BadRequestHttpError(`format must be one of ${IMPORT_FORMATS.join(', ')}`);
+    }
+    if (source !== undefined && typeof source !== 'string') {
+      throw new BadRequestHttpError('source must be a string');
+    }
+
+    const text = file ? await readableToString(file.data) : content;
+    if (typeof text !== 'string' || text.trim().length === 0) {
+      throw new BadRequestHttpError('The data to import is required, as content or as file.');
+    }
+
+    // Also checks the account and the selected WebID
+    const { webId, version, profile: current } = await this.profileHandler.readOwnProfile(input);
+
+    const importFormat = format as ProfileImportFormat | undefined ??
+      (file && CONTENT_TYPE_FORMATS[file.contentType]) ?? detectFormat(text);
+    const imported = this.convert(importFormat, text, webId, source);
+    const skipped = this.removeInvalidValues(imported);
+    const profile = mergeProfiles(current, imported);
+
+    const changes: ProfileImportChange[] = [];
+    for (const [ key, value ] of Object.entries(profile)) {
+      if (value !== undefined && JSON.stringify(value) !== JSON.stringify(current[key])) {
+        changes.push({ key, current: current[key], proposed: value });
+      }
+    }
+    this.logger.debug(`Importing ${importFormat} into the profile of ${webId} changes ${changes.length} fields`);
+
+    return { json: { webId, format: importFormat, version, imported, profile, changes, skipped }};
+  }
+
+  private convert(format: ProfileImportFormat, text: string, webId: string, source?: string): ProfileData {
+    switch (format) {
+      case 'vcard':
+        return parseVCard(text);
+      case 'jsonresume': {
+        let resume: unknown;
+        try {
+          resume = JSON.parse(text);
+        } catch (error: unknown) {
+          throw new BadRequestHttpError(`Unable to parse the JSON Resume: ${createErrorMessage(error)}`);
+        }
+        return parseJsonResume(resume);
+      }
+      default:
+        return this.convertTurtle(text, webId, source);
+    }
+  }
+
+  /**
+   * Extracts the profile of the person described by a Turtle document.
+   * Relative IRIs are resolved against the profile document of the user, or the `source` WebID if there is one.
+   */
+  private convertTurtle(text: string, webId: string, source?: string): ProfileData {
+    let quads: Quad[];
+    try {
+      quads = new Parser({ baseIRI: source ?? webId }).parse(text);
+    } catch (error: unknown) {
+      throw new BadRequestHttpError(`Unable to parse the imported Turtle: ${createErrorMessage(error)}`);
+    }
+
+    const person = source ?? findPerson(quads);
+    if (!person) {
+      throw new BadRequestHttpError(
+        'Could not find the person described by the imported data, choose their WebID as source.',
+      );
+    }
+    // Listing the profile in the directory is a choice made on this server.
+    // Without a login email, a published email address is extracted as contact address.
+    const { listInDirectory, ...profile } = extractProfileFromQuads(quads, person, this.profileHandler.fields);
+    // The identifiers of the entries belong to the other document
+    for (const key of [ 'emails', 'phones', 'addresses', 'accounts', 'organizations' ] as const) {
+      for (const entry of profile[key] ?? []) {
+        delete entry.id;
+      }
+    }
+    // Imported addresses are private until the user chooses otherwise
+    for (const address of profile.addresses ?? []) {
+      address.visibility = 'private';
+    }
+    return profile;
+  }
+
+  /**
+   * Removes the values of the registry fields, the phone numbers and the addresses,
+   * that would not pass validation when saving.
+   * Returns why each value was removed.
+   */
+  private removeInvalidValues(profile: ProfileData): { key: string; message: string }[] {
+    const skipped: { key: string; message: string }[] = [];
+    for (const field of this.profileHandler.fields) {
+      const value = profile[field.key];
+      // Photos as data URI are uploaded when saving
+      if (field.key === 'photo' && typeof value === 'string' && value.startsWith('data:image/')) {
+        continue;
+      }
+      const errors = field.validate(value);
+      if (errors.length > 0) {
+        skipped.push(...errors.map(({ message }): { key: string; message: string } => ({ key: field.key, message })));
+        delete profile[field.key];
+      }
+    }
+    // Phone numbers without a country code can not be stored, as they can not be normalized
+    if (profile.phones) {
+      for (const { phone } of profile.phones.filter((entry): boolean => !normalizePhoneNumber(entry.phone))) {
+        skipped.push({ key: 'phones', message: `${phone} is not a phone number including the country code` });
+      }
+      profile.phones = profile.phones.filter((entry): boolean => Boolean(normalizePhoneNumber(entry.phone)));
+    }
+    // Addresses need a city and a known country
+    if (profile.addresses) {
+      const isValid = (entry: NonNullable<ProfileData['addresses']>[number]): boolean =>
+        Boolean(entry.locality) && isCountryCode(entry.country);
+      for (const entry of profile.addresses.filter((address): boolean => !isValid(address))) {
+        const description = [ entry.streetAddress, entry.locality, entry.country ].filter(Boolean).join(', ');
+        skipped.push({ key: 'addresses', message: `${description} is not an address with a city and known country` });
+      }
+      profile.addresses = profile.addresses.filter(isValid);
+    }
+    return skipped;
+  }
+}
+
+/**
+ * Guesses the format of the data to import from its contents.
+ */
+function detectFormat(text: string): ProfileImportFormat {
+  const start = text.trimStart();
+  if (start.toUpperCase().startsWith('BEGIN:VCARD')) {
+    return 'vcard';
+  }
+  if (start.startsWith('{')) {
+    return 'jsonresume';
+  }
+  return 'turtle';
+}
+
+/**
+ * Finds the subject of the `foaf:primaryTopic` of a document, or else the first person in it.
+ */
+function findPerson(quads: Quad[]): string | undefined {
+  const topic = quads.find((quad): boolean => quad.predicate.value === `${FOAF}primaryTopic`);
+  if (topic) {
+    return topic.object.value;
+  }
+  return quads.find((quad): boolean => quad.predicate.value === `${RDF}type` &&
+    PERSON_CLASSES.includes(quad.object.value))?.subject.value;
+}
+
+/**
+ * Adds the imported values to the current profile.
+ * Lists are extended with the entries they do not contain yet, other values are replaced.
+ */
+function mergeProfiles(current: ProfileData, imported: ProfileData): ProfileData {
+  const merged: ProfileData = { ...current };
+  for (const [ key, value ] of Object.entries(imported)) {
+    if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+      continue;
+    }
+    const existing = current[key];
+    if (Array.isArray(value) && Array.isArray(existing)) {
+      const getKey = (entry: Json): string => typeof entry === 'object' && entry !== null && ENTRY_KEYS[key] ?
+        ENTRY_KEYS[key](entry as Dict<Json>) :
+        JSON.stringify(entry);
+      const keys = new Set(existing.map(getKey));
+      merged[key] = [ ...existing, ...value.filter((entry): boolean => !keys.has(getKey(entry))) ];
+    } else {
+      merged[key] = value;
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,209 @@
+import { DataFactory } from 'n3';
+import type { Quad } from '@rdfjs/types';
+import { getLoggerFor } from '@solid/community-server/dist/logging/LogUtil';
+import { BasicRepresentation } from '@solid/community-server/dist/http/representation/BasicRepresentation';
+import type { AuxiliaryIdentifierStrategy } from '@solid/community-server/dist/http/auxiliary/AuxiliaryIdentifierStrategy';
+import type { KeyValueStorage } from '@solid/community-server/dist/storage/keyvalue/KeyValueStorage';
+import type { ResourceStore } from '@solid/community-server/dist/storage/ResourceStore';
+import { TEXT_TURTLE } from '@solid/community-server/dist/util/ContentTypes';
+import { ensureTrailingSlash, joinUrl } from '@solid/community-server/dist/util/PathUtil';
+import { serializeQuads } from '@solid/community-server/dist/util/QuadUtil';
+
+const RDF = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
+const SCHEMA = 'http://schema.org/';
+const FOAF = 'http://xmlns.com/foaf/0.1/';
+const ACL = 'http://www.w3.org/ns/auth/acl#';
+
+/**
+ * An organization of the registry, with the IRI of its description as `id`.
+ */
+export type RegisteredOrganization = {
+  id: string;
+  name: string;
+  homepage?: string;
+  logo?: string;
+};
+
+/**
+ * Makes organization names comparable by ignoring case, diacritics, punctuation and repeated spaces,
+ * so "ODI", "odi" and "O.D.I." are the same organization.
+ */
+function normalizeName(name: string): string {
+  return name.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().replace(/[^\p{L}\d\s]/gu, '')
+    .replace(/\s+/gu, ' ').trim();
+}
+
+/**
+ * Converts a name to the part of a URL identifying the organization, such as `open-data-institute`.
+ */
+function toSlug(name: string): string {
+  return normalizeName(name).replace(/ /gu, '-').slice(0, 60).replace(/-+$/u, '') || 'organization';
+}
+
+export interface OrganizationRegistryArgs {
+  /**
+   * Base URL of the server.
+   */
+  baseUrl: string;
+  /**
+   * Container relative to the base URL where the descriptions of the organizations are stored.
+   * Defaults to `.organizations/`, which can not be the name of a pod as CSS replaces the dot of pod names.
+   */
+  container?: string;
+  /**
+   * Index of the registered organizations, with their IRIs as keys.
+   */
+  storage: KeyValueStorage<string, RegisteredOrganization>;
+  /**
+   * Store the descriptions of the organizations are written to.
+   */
+  resourceStore: ResourceStore;
+  /**
+   * Used to find the ACL of the container, which makes the descriptions readable by everyone.
+   */
+  aclStrategy: AuxiliaryIdentifierStrategy;
+}
+
+/**
+ * Keeps track of the organizations used in the profiles on this server,
+ * so everyone working at the same organization links to the same IRI.
+ *
+ * Every organization gets a document in the container, such as `/.organizations/odi`,
+ * describing `<#this>` as `schema:Organization` with its name, homepage and logo.
+ * The documents are readable by everyone and can only be changed through the registry.
+ * Organizations are matched by name, ignoring case, diacritics and punctuation.
+ */
+export class OrganizationRegistry {
+  protected readonly logger = getLoggerFor(this);
+
+  private readonly containerUrl: string;
+  private readonly storage: KeyValueStorage<string, RegisteredOrganization>;
+  private readonly resourceStore: ResourceStore;
+  private readonly aclStrategy: AuxiliaryIdentifierStrategy;
+
+  public constructor(args: OrganizationRegistryArgs) {
+    this.containerUrl = ensureTrailingSlash(joinUrl(args.baseUrl, args.container ?? '.organizations/'));
+    this.storage = args.storage;
+    this.resourceStore = args.resourceStore;
+    this.aclStrategy = args.aclStrategy;
+  }
+
+  /**
+   * Returns the organization with the given IRI, if it is part of the registry.
+   */
+  public async get(id: string): Promise<RegisteredOrganization | undefined> {
+    return this.storage.get(id);
+  }
+
+  /**
+   * Finds the organization with the given name.
+   */
+  public async findByName(name: string): Promise<RegisteredOrganization | undefined> {
+    const needle = normalizeName(name);
+    for await (const [ , organization ] of this.storage.entries()) {
+      if (normalizeName(organization.name) === needle) {
+        return organization;
+      }
+    }
+  }
+
+  /**
+   * Finds the organizations of which the name contains the query, those starting with it first.
+   *
+   * @param query - Text to search for.
+   * @param limit - Maximum number of results.
+   */
+  public async search(query: string, limit: number): Promise<RegisteredOrganization[]> {
+    const needle = normalizeName(query);
+    if (needle.length === 0) {
+      return [];
+    }
+    const matches: RegisteredOrganization[] = [];
+    for await (const [ , organization ] of this.storage.entries()) {
+      if (normalizeName(organization.name).includes(needle)) {
+        matches.push(organization);
+      }
+    }
+    return matches
+      .sort((left, right): number => Number(!normalizeName(left.name).startsWith(needle)) -
+        Number(!normalizeName(right.name).startsWith(needle)) || left.name.localeCompare(right.name))
+      .slice(0, limit);
+  }
+
+  /**
+   * Returns the organization with the given name.
+   * If there is none yet, this describes the organization that {@link register} would create,
+   * without writing anything, so it can be linked to before the profile referring to it is saved.
+   * The homepage and logo are only used for new organizations, existing ones are never changed.
+   */
+  public async prepare(name: string, homepage?: string, logo?: string): Promise<RegisteredOrganization> {
+    const existing = await this.findByName(name);
+    if (existing) {
+      return existing;
+    }
+
+    const slug = toSlug(name);
+    let documentUrl = joinUrl(this.containerUrl, slug);
+    for (let index = 2; await this.storage.has(`${documentUrl}#this`) ||
+      await this.resourceStore.hasResource({ path: documentUrl }); index++) {
+      documentUrl = joinUrl(this.containerUrl, `${slug}-${index}`);
+    }
+    return { id: `${documentUrl}#this`, name: name.trim(), homepage, logo };
+  }
+
+  /**
+   * Adds an organization from {@link prepare} to the registry, unless it is part of it already.
+   */
+  public async register(organization: RegisteredOrganization): Promise<void> {
+    if (await this.storage.has(organization.id)) {
+      return;
+    }
+    if (!await this.resourceStore.hasResource({ path: this.containerUrl })) {
+      await this.writeAcl();
+    }
+    await this.write(organization);
+    this.logger.info(`Registered organization ${organization.name} as ${organization.id}`);
+  }
+
+  /**
+   * Writes the description of an organization and adds it to the index.
+   */
+  private async write(organization: RegisteredOrganization): Promise<void> {
+    const { namedNode, literal, quad } = DataFactory;
+    const subject = namedNode(organization.id);
+    const quads: Quad[] = [
+      quad(subject, namedNode(`${RDF}type`), namedNode(`${SCHEMA}Organization`)),
+      quad(subject, namedNode(`${SCHEMA}name`), literal(organization.name)),
+    ];
+    if (organization.homepage) {
+      quads.push(quad(subject, namedNode(`${SCHEMA}url`), namedNode(organization.homepage)));
+    }
+    if (organization.logo) {
+      quads.push(quad(subject, namedNode(`${SCHEMA}logo`), namedNode(organization.logo)));
+    }
+    const identifier = { path: organization.id.replace(/#.*$/u, '') };
+    await this.resourceStore.setRepresentation(identifier,
+      new BasicRepresentation(serializeQuads(quads, TEXT_TURTLE), identifier, TEXT_TURTLE));
+    await this.storage.set(organization.id, organization);
+  }
+
+  /**
+   * Makes the container, and the descriptions in it, readable by everyone.
+   * Nobody gets write access, so only the server can change them.
+   */
+  private async writeAcl(): Promise<void> {
+    const { namedNode, quad } = DataFactory;
+    const identifier = this.aclStrategy.getAuxiliaryIdentifier({ path: this.containerUrl });
+    const node = namedNode(`${identifier.path}#public`);
+    const container = namedNode(this.containerUrl);
+    const quads: Quad[] = [
+      quad(node, namedNode(`${RDF}type`), namedNode(`${ACL}Authorization`)),
+      quad(node, namedNode(`${ACL}agentClass`), namedNode(`${FOAF}Agent`)),
+      quad(node, namedNode(`${ACL}accessTo`), container),
+      quad(node, namedNode(`${ACL}default`), container),
+      quad(node, namedNode(`${ACL}mode`), namedNode(`${ACL}Read`)),
+    ];
+    await this.resourceStore.setRepresentation(identifier,
+      new BasicRepresentation(serializeQuads(quads, TEXT_TURTLE), identifier, TEXT_TURTLE));
+  }
+}
@@ -0,0 +1,59 @@
+import type { JsonRepresentation } from '@solid/community-server/dist/identity/interaction/InteractionUtil';
+import type { JsonInteractionHandlerInput } from '@solid/community-server/dist/identity/interaction/JsonInteractionHandler';
+import { JsonInteractionHandler } from '@solid/community-server/dist/identity/interaction/JsonInteractionHandler';
+import type { JsonView } from '@solid/community-server/dist/identity/interaction/JsonView';
+import { assertAccountId } from '@solid/community-server/dist/identity/interaction/account/util/AccountUtil';
+import { BadRequestHttpError } from '@solid/community-server/dist/util/errors/BadRequestHttpError';
+import type { ProfileHandler } from '../ProfileHandler';
+import type { OrganizationRegistry, RegisteredOrganization } from './OrganizationRegistry';
+
+/**
+ * Suggests organizations while typing the name of one in the CV of a profile.
+ * The POSTed `query` is matched against the organizations the profile already links to,
+ * which come first, and the organizations in the {@link OrganizationRegistry}.
+ * The `webId` can be used to choose the profile, as in the profile route.
+ */
+export class OrganizationSearchHandler extends JsonInteractionHandler implements JsonView {
+  private readonly profileHandler: ProfileHandler;
+  private readonly organizationRegistry: OrganizationRegistry;
+  private readonly limit: number;
+
+  /**
+   * @param profileHandler - Reads the organizations of the profile.
+   * @param organizationRegistry - Registry of the organizations on this server.
+   * @param limit - Maximum number of results. Defaults to 10.
+   */
+  public constructor(profileHandler: ProfileHandler, organizationRegistry: OrganizationRegistry, limit = 10) {
+    super();
+    this.profileHandler = profileHandler;
+    this.organizationRegistry = organizationRegistry;
+    this.limit = limit;
+  }
+
+  public async getView({ accountId }: JsonInteractionHandlerInput): Promise<JsonRepresentation> {
+    assertAccountId(accountId);
+    return { json: { query: 'string', webId: 'string' }};
+  }
+
+  public async handle(input: JsonInteractionHandlerInput): Promise<JsonRepresentation> {
+    assertAccountId(input.accountId);
+    const { query } = input.json as { query?: unknown };
+    if (typeof query !== 'string') {
+      throw new BadRequestHttpError('A search query is required.');
+    }
+
+    const { profile } = await this.profileHandler.readVisibleProfile(input, 'private');
+    const needle = query.trim().toLowerCase();
+    const used: RegisteredOrganization[] = [];
+    for (const { organization, organizationName } of profile.organizations ?? []) {
+      if (organization && organizationName && organizationName.toLowerCase().includes(needle) &&
+        !used.some((entry): boolean => entry.id === organization)) {
+        used.push({ id: organization, name: organizationName });
+      }
+    }
+    const registered = (await this.organizationRegistry.search(query, this.limit))
+      .filter((entry): boolean => !used.some((usedEntry): boolean => usedEntry.id === entry.id));
+
+    return { json: { results: [ ...used, ...registered ].slice(0, this.limit) }};
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * A phone number in E.164 format: a `+`, the country code and the subscriber number, at most 15 digits in total.
+ */
+const E164_REGEX = /^\+[1-9]\d{6,14}$/u;
+
+/**
+ * Characters that are commonly used to group the digits of a phone number.
+ */
+const SEPARATOR_REGEX = /[\s().\-/]/gu;
+
+/**
+ * Normalizes a phone number to E.164, such as `+442079460958`.
+ * Accepts `tel:` URIs, the usual separators and the international `00` prefix.
+ * Returns undefined if the result is not a valid E.164 number,
+ * which is also the case for numbers without a country code, as it can not be guessed.
+ */
+export function normalizePhoneNumber(value: string): string | undefined {
+  let number = value.trim().replace(/^tel:/iu, '')
+    // Parameters of `tel:` URIs, such as `;ext=123`, are not part of the number
+    .split(';')[0]
+    .replace(SEPARATOR_REGEX, '');
+  if (number.startsWith('00')) {
+    number = `+${number.slice(2)}`;
+  }
+  return E164_REGEX.test(number) ? number : undefined;
+}
+
+/**
+ * Returns the `tel:` URI of a phone number, normalized if possible.
+ */
+export function toTelUri(value: string): string {
+  return `tel:${normalizePhoneNumber(value) ?? value.replace(/^tel:/iu, '').replace(/\s/gu, '')}`;
+}
@@ -0,0 +1,93 @@
+import { getLoggerFor } from '@solid/community-server/dist/logging/LogUtil';
+import type { JsonRepresentation } from '@solid/community-server/dist/identity/interaction/InteractionUtil';
+import type { JsonInteractionHandlerInput } from '@solid/community-server/dist/identity/interaction/JsonInteractionHandler';
+import { JsonInteractionHandler } from '@solid/community-server/dist/identity/interaction/JsonInteractionHandler';
+import type { JsonView } from '@solid/community-server/dist/identity/interaction/JsonView';
+import type { WebIdStore } from '@solid/community-server/dist/identity/interaction/webid/util/WebIdStore';
+import { BadRequestHttpError } from '@solid/community-server/dist/util/errors/BadRequestHttpError';
+import { ForbiddenHttpError } from '@solid/community-server/dist/util/errors/ForbiddenHttpError';
+import type { Json } from '@solid/community-server/dist/util/Json';
+import Dict = NodeJS.Dict;
+import { isAdmin } from '../util/AdminUtil';
+import type { ProfileProvisioner } from './ProfileProvisioner';
+import type { ProvisionFormat, ProvisionRow } from './ProvisionUtil';
+import { PROVISION_FORMATS, toProvisionRows } from './ProvisionUtil';
+
+export interface ProfileProvisionHandlerArgs {
+  /**
+   * Creates or updates the profiles.
+   */
+  provisioner: ProfileProvisioner;
+  /**
+   * Store to find the WebIDs linked to the account doing the request.
+   */
+  webIdStore: WebIdStore;
+  /**
+   * WebIDs of the administrators that can provision profiles. Nobody can if there are none.
+   */
+  admins?: string[];
+}
+
+/**
+ * Lets administrators create or update the profiles of many accounts at once, see {@link ProfileProvisioner}.
+ * The profiles are POSTed as a list of `rows`, or as CSV or JSON `content` with an optional `format`.
+ * With `dryRun` nothing is saved and the result of every row contains the N3 patches that would be sent,
+ * with `partial` only the keys in the rows are changed, as in PATCH requests to the profile route.
+ *
+ * Only accounts linked to one of the WebIDs in `admins` can use this route.
+ */
+export class ProfileProvisionHandler extends JsonInteractionHandler implements JsonView {
+  private readonly logger = getLoggerFor(this);
+
+  private readonly provisioner: ProfileProvisioner;
+  private readonly webIdStore: WebIdStore;
+  private readonly admins: string[];
+
+  public constructor(args: ProfileProvisionHandlerArgs) {
+    super();
+    this.provisioner = args.provisioner;
+    this.webIdStore = args.webIdStore;
+    this.admins = args.admins ?? [];
+  }
+
+  public async getView({ accountId }: JsonInteractionHandlerInput): Promise<JsonRepresentation> {
+    await this.assertAdmin(accountId);
+    return { json: { rows: 'object[]', content: 'string', format: 'string', dryRun: 'boolean', partial: 'boolean' }};
+  }
+
+  public async handle({ accountId, json }: JsonInteractionHandlerInput): Promise<JsonRepresentation> {
+    await this.assertAdmin(accountId);
+    const { rows, content, format, dryRun, partial } = json as Dict<Json>;
+    if (format !== undefined && !PROVISION_FORMATS.includes(format as ProvisionFormat)) {
+      throw new BadRequestHttpError(`format must be one of ${PROVISION_FORMATS.join(', ')}`);
+    }
+    if ((dryRun !== undefined && typeof dryRun !== 'boolean') ||
+      (partial !== undefined && typeof partial !== 'boolean')) {
+      throw new BadRequestHttpError('dryRun and partial must be booleans');
+    }
+
+    let input: ProvisionRow[];
+    if (Array.isArray(rows)) {
+      input = toProvisionRows(rows);
+    } else if (typeof content === 'string' && content.trim().length > 0) {
+      input = this.provisioner.parseRows(content, format as ProvisionFormat | undefined);
+    } else {
+      throw new BadRequestHttpError('The profiles to provision are required, as rows or as content.');
+    }
+
+    this.logger.info(`Account ${accountId} provisions ${input.length} profiles`);
+    const results = await this.provisioner.provision(input,
+      { dryRun: dryRun as boolean | undefined, partial: partial as boolean | undefined });
+    return { json: { dryRun: Boolean(dryRun), results }};
+  }
+
+  /**
+   * Throws an error if the account is not one of the admins.
+   */
+  private async assertAdmin(accountId?: string): Promise<void> {
+    if (!await isAdmin(this.webIdStore, this.admins, accountId)) {
+      this.logger.warn(`Account ${accountId} tried to provision profiles without being an admin`);
+      throw new ForbiddenHttpError('Only administrators can provision profiles.');
+    }
+  }
+}
@@ -0,0 +1,146 @@
+import { RepresentationMetadata } from '@solid/community-server/dist/http/representation/RepresentationMetadata';
+import type { PasswordStore } from '@solid/community-server/dist/identity/interaction/password/util/PasswordStore';
+import { getLoggerFor } from '@solid/community-server/dist/logging/LogUtil';
+import { BadRequestHttpError } from '@solid/community-server/dist/util/errors/BadRequestHttpError';
+import { createErrorMessage } from '@solid/community-server/dist/util/errors/ErrorUtil';
+import { HttpError } from '@solid/community-server/dist/util/errors/HttpError';
+import { extractErrorTerms } from '@solid/community-server/dist/util/errors/HttpErrorUtil';
+import { NotFoundHttpError } from '@solid/community-server/dist/util/errors/NotFoundHttpError';
+import type { ProfileHandler, ProfilePatchPreview } from '../ProfileHandler';
+import type { ValidationError } from '../validation/ProfileValidator';
+import type { ProvisionFormat, ProvisionRow } from './ProvisionUtil';
+import { parseProvisionRows } from './ProvisionUtil';
+
+/**
+ * The outcome of provisioning a single row.
+ *  - `updated`: the profile was saved.
+ *  - `preview`: nothing was saved, `patches` contains the changes that would be made.
+ *  - `failed`: nothing was saved, `error` tells why, together with the validation `errors` if there are any.
+ */
+export type ProvisionResult = {
+  // Position of the row in the input, starting at 1
+  row: number;
+  email?: string;
+  accountId?: string;
+  webId?: string;
+  status: 'updated' | 'preview' | 'failed';
+  patches?: ProfilePatchPreview[];
+  error?: string;
+  errors?: ValidationError[];
+};
+
+export interface ProvisionOptions {
+  /**
+   * Only determines the patches, without changing any profile.
+   */
+  dryRun?: boolean;
+  /**
+   * Only changes the keys in the rows, as PATCH requests do, instead of replacing the profiles.
+   */
+  partial?: boolean;
+}
+
+export interface ProfileProvisionerArgs {
+  /**
+   * Handler that validates and stores the profiles.
+   */
+  profileHandler: ProfileHandler;
+  /**
+   * Store to find the accounts by their login email.
+   */
+  passwordStore: PasswordStore;
+}
+
+/**
+ * Creates or updates the profiles of many accounts at once, such as a whole cohort,
+ * as if every account saved its own profile through the {@link ProfileHandler}.
+ * The rows are handled one by one, and a failing row does not stop the others.
+ *
+ * Used by the admin route and by the command-line tool, which works directly on the data folder of a stopped server.
+ */
+export class ProfileProvisioner {
+  private readonly logger = getLoggerFor(this);
+
+  private readonly profileHandler: ProfileHandler;
+  private readonly passwordStore: PasswordStore;
+
+  public constructor(args: ProfileProvisionerArgs) {
+    this.profileHandler = args.profileHandler;
+    this.passwordStore = args.passwordStore;
+  }
+
+  /**
+   * Reads the rows to provision from CSV or JSON, see {@link parseProvisionRows}.
+   */
+  public parseRows(content: string, format?: ProvisionFormat): ProvisionRow[] {
+    const lists = this.profileHandler.fields.filter((field): boolean => field.multiple)
+      .map((field): string => field.key);
+    return parseProvisionRows(content, format, lists);
+  }
+
+  /**
+   * Provisions the profiles of all rows, reporting the result of each of them.
+   */
+  public async provision(rows: ProvisionRow[], options: ProvisionOptions = {}): Promise<ProvisionResult[]> {
+    const results: ProvisionResult[] = [];
+    for (const [ index, row ] of rows.entries()) {
+      results.push(await this.provisionRow(index + 1, row, options));
+    }
+    const failed = results.filter((result): boolean => result.status === 'failed').length;
+    this.logger.info(`Provisioned ${results.length - failed} of ${results.length} profiles${
+      options.dryRun ? ' as dry run' : ''}`);
+    return results;
+  }
+
+  private async provisionRow(index: number, row: ProvisionRow, { dryRun, partial }: ProvisionOptions):
+  Promise<ProvisionResult> {
+    const { email, accountId: id, ...json } = row;
+    const result: ProvisionResult = { row: index, status: 'failed' };
+    if (typeof email === 'string') {
+      result.email = email;
+    }
+    try {
+      const accountId = await this.findAccountId(email, id);
+      result.accountId = accountId;
+      const input = {
+        method: partial ? 'PATCH' : 'POST',
+        // Not the route of a WebID link, so the `webId` of the row, or the first WebID of the account, is used
+        target: { path: '' },
+        json,
+        metadata: new RepresentationMetadata(),
+        accountId,
+      };
+      if (dryRun) {
+        const { webId, patches } = await this.profileHandler.previewUpdate(input);
+        return { ...result, webId, status: 'preview', patches };
+      }
+      const { json: profile } = await this.profileHandler.handle(input);
+      return { ...result, webId: profile.webId as string, status: 'updated' };
+    } catch (error: unknown) {
+      this.logger.warn(`Could not provision row ${index}: ${createErrorMessage(error)}`);
+      result.error = createErrorMessage(error);
+      const errors = HttpError.isInstance(error) ? extractErrorTerms(error.metadata).errors : undefined;
+      if (errors) {
+        result.errors = JSON.parse(errors) as ValidationError[];
+      }
+      return result;
+    }
+  }
+
+  /**
+   * Finds the account of a row, by its login email or its ID.
+   */
+  private async findAccountId(email: unknown, accountId: unknown): Promise<string> {
+    if (typeof accountId === 'string' && accountId.length > 0) {
+      return accountId;
+    }
+    if (typeof email !== 'string' || email.length === 0) {
+      throw new BadRequestHttpError('The email or accountId of the account is required.');
+    }
+    const login = await this.passwordStore.findByEmail(email);
+    if (!login) {
+      throw new NotFoundHttpError(`There is no account with login email ${email}.`);
+    }
+    return login.accountId;
+  }
+}
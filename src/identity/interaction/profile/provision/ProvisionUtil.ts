@@ -0,0 +1,127 @@
+import { BadRequestHttpError } from '@solid/community-server/dist/util/errors/BadRequestHttpError';
+import type { Json } from '@solid/community-server/dist/util/Json';
+import Dict = NodeJS.Dict;
+import { parseCsv } from '../util/CsvUtil';
+
+/**
+ * The formats a list of profiles to provision can be read from.
+ *  - `csv`: a header with the keys, and a line per account.
+ *  - `json`: a list with an object per account.
+ */
+export type ProvisionFormat = 'csv' | 'json';
+
+export const PROVISION_FORMATS: ProvisionFormat[] = [ 'csv', 'json' ];
+
+/**
+ * The profile data of an account to provision.
+ * The account is identified by the `email` it logs in with, or by its `accountId`,
+ * and `webId` chooses the profile in case several WebIDs are linked to the account.
+ * All other keys are profile data, as sent to the profile route.
+ */
+export type ProvisionRow = Dict<Json>;
+
+/**
+ * Separates the values of a list in a single CSV cell.
+ */
+const LIST_SEPARATOR = '|';
+
+function isObject(value: unknown): value is Dict<Json> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Guesses the format of the content, JSON lists start with `[`.
+ */
+export function detectProvisionFormat(content: string): ProvisionFormat {
+  return content.trimStart().startsWith('[') ? 'json' : 'csv';
+}
+
+/**
+ * Converts a CSV cell to its JSON value.
+ * Cells containing a JSON list, object or boolean are parsed, as needed for the structured entries such as `emails`,
+ * and the cells of list fields are split on `|`.
+ */
+function parseCell(cell: string, list: boolean): Json {
+  const text = cell.trim();
+  if (/^[[{]/u.test(text) || text === 'true' || text === 'false') {
+    return JSON.parse(text) as Json;
+  }
+  if (list) {
+    return text.split(LIST_SEPARATOR).map((value): string => value.trim())
+      .filter((value): boolean => value.length > 0);
+  }
+  return text;
+}
+
+/**
+ * Reads the rows of a CSV file, with the keys in the header.
+ * A key with a dot creates an object, so `visibility.phones` sets the visibility of the phone numbers
+ * and `name.en` and `name.nl` give the name in two languages. Empty cells are left out.
+ *
+ * @param content - The CSV text.
+ * @param lists - Keys of the fields with multiple values.
+ */
+function parseCsvRows(content: string, lists: string[]): ProvisionRow[] {
+  const [ header = [], ...lines ] = parseCsv(content);
+  const keys = header.map((key): string[] => key.trim().split('.'));
+  const rows: ProvisionRow[] = [];
+  for (const [ index, line ] of lines.entries()) {
+    if (line.every((cell): boolean => cell.trim().length === 0)) {
+      continue;
+    }
+    const row: ProvisionRow = {};
+    for (const [ column, cell ] of line.entries()) {
+      const path = keys[column];
+      if (!path || path[0].length === 0 || cell.trim().length === 0) {
+        continue;
+      }
+      let value: Json;
+      try {
+        value = parseCell(cell, path.length === 1 && lists.includes(path[0]));
+      } catch {
+        throw new BadRequestHttpError(`Invalid JSON in column ${path.join('.')} of line ${index + 2}`);
+      }
+      let parent = row;
+      for (const key of path.slice(0, -1)) {
+        if (!isObject(parent[key])) {
+          parent[key] = {};
+        }
+        parent = parent[key] as Dict<Json>;
+      }
+      parent[path[path.length - 1]] = value;
+    }
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Reads the profiles to provision, see {@link ProvisionRow}.
+ *
+ * @param content - The CSV or JSON text.
+ * @param format - The format of the content, detected if not set.
+ * @param lists - Keys of the fields with multiple values, which CSV cells can contain separated by `|`.
+ */
+export function parseProvisionRows(content: string, format: ProvisionFormat | undefined, lists: string[]):
+ProvisionRow[] {
+  if ((format ?? detectProvisionFormat(content)) === 'csv') {
+    return parseCsvRows(content, lists);
+  }
+  let rows: unknown;
+  try {
+    rows = JSON.parse(content);
+  } catch {
+    throw new BadRequestHttpError('The profiles to provision are not valid JSON.');
+  }
+  return toProvisionRows(rows);
+}
+
+/**
+ * Checks if the value is a list of rows to provision, and returns it as such.
+ */
+export function toProvisionRows(value: unknown): ProvisionRow[] {
+  if (!Array.isArray(value) || !value.every(isObject)) {
+    throw new BadRequestHttpError('The profiles to provision need to be a JSON list of objects.');
+  }
+  return value;
+}
@@ -0,0 +1,216 @@
+import { getLoggerFor } from '@solid/community-server/dist/logging/LogUtil';
+import type { JsonRepresentation } from '@solid/community-server/dist/identity/interaction/InteractionUtil';
+import type { JsonInteractionHandlerInput } from '@solid/community-server/dist/identity/interaction/JsonInteractionHandler';
+import { JsonInteractionHandler } from '@solid/community-server/dist/identity/interaction/JsonInteractionHandler';
+import type { JsonView } from '@solid/community-server/dist/identity/interaction/JsonView';
+import { createErrorMessage } from '@solid/community-server/dist/util/errors/ErrorUtil';
+import { isUrl } from '@solid/community-server/dist/util/StringUtil';
+import type { ResolvedContact } from '../contacts/ContactResolver';
+import type { ProfileData, ProfileHandler } from '../ProfileHandler';
+import { fetchPublicUrl, isPublicUrl } from '../util/FetchUtil';
+import { pickLanguage } from '../util/LanguageUtil';
+
+/**
+ * Whether a part of the profile has a value.
+ */
+export type ProfileReportEntry = {
+  key: string;
+  filled: boolean;
+};
+
+/**
+ * A problem found in the profile.
+ *  - `broken`: a URL that responds with an error status.
+ *  - `unreachable`: a URL that could not be fetched at all.
+ *  - `invalidWebId`: a contact that is not a WebID.
+ *    Contacts of which the profile can not be read are reported as `unreachable`.
+ *  - `duplicate`: an organization role that is in the profile more than once.
+ *  - `vocabulary`: a value that is not part of the vocabulary of its field.
+ */
+export type ProfileReportIssue = {
+  key: string;
+  value: string;
+  problem: 'broken' | 'unreachable' | 'invalidWebId' | 'duplicate' | 'vocabulary';
+  message: string;
+};
+
+/**
+ * Keys of the structured parts of the profile, which are checked next to the fields of the registry.
+ */
+const STRUCTURED_KEYS = [ 'emails', 'phones', 'addresses', 'accounts', 'organizations' ];
+
+/**
+ * Fields containing a URL that should be reachable.
+ */
+const LINK_KEYS = [ 'homepage', 'photo' ];
+
+export interface ProfileReportHandlerArgs {
+  /**
+   * Used to read the profile, so the report matches what the profile form shows.
+   */
+  profileHandler: ProfileHandler;
+  /**
+   * Milliseconds to wait for a response when checking a URL.
+   * Defaults to 5 seconds.
+   */
+  timeout?: number;
+}
+
+/**
+ * Reports how complete the profile of a WebID is, and which of its values might need attention.
+ *
+ * The report contains a `checklist` of the fields that are filled in,
+ * a `score` with the percentage of filled fields,
+ * and the `issues` found in the values, see {@link ProfileReportIssue}.
+ *
+ * A GET reports on the default WebID of the account,
+ * a POST can choose the WebID with a `webId` field, as in the {@link ProfileHandler}.
+ */
+export class ProfileReportHandler extends JsonInteractionHandler implements JsonView {
+  private readonly logger = getLoggerFor(this);
+
+  private readonly profileHandler: ProfileHandler;
+  private readonly timeout: number;
+
+  public constructor(args: ProfileReportHandlerArgs) {
+    super();
+    this.profileHandler = args.profileHandler;
+    this.timeout = args.timeout ?? 5000;
+  }
+
+  public async getView(input: JsonInteractionHandlerInput): Promise<JsonRepresentation> {
+    return this.createReport(input);
+  }
+
+  public async handle(input: JsonInteractionHandlerInput): Promise<JsonRepresentation> {
+    return this.createReport(input);
+  }
+
+  private async createReport(input: JsonInteractionHandlerInput): Promise<JsonRepresentation> {
+    const { json: view } = await this.profileHandler.getView(input);
+    const { webId, profile, contacts } = view as { webId: string; profile: ProfileData; contacts: ResolvedContact[] };
+
+    const checklist = [ ...this.profileHandler.fields.map((field): string => field.key), ...STRUCTURED_KEYS ]
+      .map((key): ProfileReportEntry => ({ key, filled: isFilled(profile[key]) }));
+    const filled = checklist.filter((entry): boolean => entry.filled).length;
+
+    const issues = [
+      ...await this.checkLinks(profile),
+      ...checkContacts(profile, contacts),
+      ...checkOrganizations(profile),
+      ...this.checkVocabularies(profile),
+    ];
+
+    return { json: {
+      webId,
+      score: Math.round(filled / checklist.length * 100),
+      checklist,
+      issues,
+    }};
+  }
+
+  /**
+   * Checks if the URLs of the profile, such as the photo, can be fetched.
+   */
+  private async checkLinks(profile: ProfileData): Promise<ProfileReportIssue[]> {
+    const issues: ProfileReportIssue[] = [];
+    for (const key of LINK_KEYS) {
+      const url = profile[key];
+      if (typeof url !== 'string' || !/^https?:\/\//u.test(url)) {
+        continue;
+      }
+      const issue = await this.checkLink(key, url);
+      if (issue) {
+        issues.push(issue);
+      }
+    }
+    return issues;
+  }
+
+  /**
+   * Checks a single URL, only if it is on a public address, see {@link fetchPublicUrl}.
+   * Other URLs are not checked, so the report can not be used to probe internal services.
+   */
+  private async checkLink(key: string, url: string): Promise<ProfileReportIssue | undefined> {
+    try {
+      if (!await isPublicUrl(url)) {
+        this.logger.debug(`Not checking ${url} as it is not a public address`);
+        return;
+      }
+      let response = await fetchPublicUrl(url, { method: 'HEAD', signal: AbortSignal.timeout(this.timeout) });
+      // Not all servers support HEAD requests
+      if (response.status === 405) {
+        response = await fetchPublicUrl(url, { signal: AbortSignal.timeout(this.timeout) });
+      }
+      await response.body?.cancel();
+      if (response.status >= 400) {
+        return { key, value: url, problem: 'broken', message: `${url} responds with status ${response.status}` };
+      }
+    } catch (error: unknown) {
+      this.logger.debug(`Unable to fetch ${url}: ${createErrorMessage(error)}`);
+      return { key, value: url, problem: 'unreachable', message: `${url} could not be reached` };
+    }
+  }
+
+  /**
+   * Finds the values of the registry fields that are not part of the vocabulary of their field.
+   */
+  private checkVocabularies(profile: ProfileData): ProfileReportIssue[] {
+    const issues: ProfileReportIssue[] = [];
+    for (const field of this.profileHandler.fields) {
+      const value = profile[field.key];
+      for (const entry of Array.isArray(value) ? value : [ value ]) {
+        if (isFilled(entry) && !field.inVocabulary(entry)) {
+          const text = typeof entry === 'string' ? entry : JSON.stringify(entry);
+          issues.push({ key: field.key, value: text, problem: 'vocabulary', message: `${text} is not part of ${
+            field.vocabulary}` });
+        }
+      }
+    }
+    return issues;
+  }
+}
+
+function isFilled(value: unknown): boolean {
+  return value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Finds the contacts that are not WebIDs, which need to be HTTP(S) URLs,
+ * and those of which the profile could not be read.
+ */
+function checkContacts(profile: ProfileData, contacts: ResolvedContact[]): ProfileReportIssue[] {
+  const issues: ProfileReportIssue[] = [];
+  for (const contact of profile.knows ?? []) {
+    if (!isUrl(contact) || !/^https?:\/\//u.test(contact)) {
+      issues.push({ key: 'knows', value: contact, problem: 'invalidWebId', message: `${contact} is not a WebID` });
+      continue;
+    }
+    const resolved = contacts.find((entry): boolean => entry.webId === contact);
+    if (resolved && !resolved.reachable) {
+      issues.push({ key: 'knows', value: contact, problem: 'unreachable', message: `${contact} could not be read` });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Finds the organization roles that are in the profile more than once.
+ */
+function checkOrganizations(profile: ProfileData): ProfileReportIssue[] {
+  const seen = new Set<string>();
+  const issues: ProfileReportIssue[] = [];
+  for (const entry of profile.organizations ?? []) {
+    const { organization, organizationName } = entry;
+    const role = pickLanguage(entry.role, []);
+    const key = `${(organization ?? organizationName ?? '').trim().toLowerCase()}\n${
+      (role ?? '').trim().toLowerCase()}`;
+    if (seen.has(key)) {
+      const name = organizationName ?? organization ?? '';
+      const value = role ? `${role.trim()} at ${name}` : name;
+      issues.push({ key: 'organizations', value, problem: 'duplicate', message: `${value} is listed more than once` });
+    }
+    seen.add(key);
+  }
+  return issues;
+}
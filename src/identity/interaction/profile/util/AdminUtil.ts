@@ -0,0 +1,18 @@
+import { assertAccountId } from '@solid/community-server/dist/identity/interaction/account/util/AccountUtil';
+import type { WebIdStore } from '@solid/community-server/dist/identity/interaction/webid/util/WebIdStore';
+
+/**
+ * Checks if one of the WebIDs linked to the account is one of the admins.
+ * Login emails are not used, as CSS does not require them to be verified,
+ * while a WebID can only be linked to an account that owns it.
+ * Throws an error if there is no account.
+ *
+ * @param webIdStore - Store to find the WebIDs linked to the account.
+ * @param admins - WebIDs of the administrators.
+ * @param accountId - ID of the account doing the request.
+ */
+export async function isAdmin(webIdStore: WebIdStore, admins: string[], accountId?: string): Promise<boolean> {
+  assertAccountId(accountId);
+  const links = await webIdStore.findLinks(accountId);
+  return links.some(({ webId }): boolean => admins.includes(webId));
+}
@@ -0,0 +1,40 @@
+/**
+ * Parses CSV text into rows, supporting quoted values containing separators, quotes and line breaks.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let quoted = false;
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        value += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index += 1;
+      }
+      rows.push([ ...row, value ]);
+      row = [];
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+  if (value.length > 0 || row.length > 0) {
+    rows.push([ ...row, value ]);
+  }
+  return rows;
+}
@@ -0,0 +1,120 @@
+import { createHash } from 'node:crypto';
+import type { Quad, Term } from '@rdfjs/types';
+
+/**
+ * Generates a key that identifies a term.
+ */
+function termKey(term: Term): string {
+  if (term.termType === 'Literal') {
+    return `"${term.value}"@${term.language}^^${term.datatype.value}`;
+  }
+  return `${term.termType}:${term.value}`;
+}
+
+/**
+ * Generates a key that identifies a quad, to be used for set operations on quads.
+ */
+function quadKey(quad: Quad): string {
+  const key = `${termKey(quad.subject)} ${termKey(quad.predicate)} ${termKey(quad.object)}`;
+  return quad.graph.termType === 'DefaultGraph' ? key : `${key} ${termKey(quad.graph)}`;
+}
+
+/**
+ * Checks if the given quad contains a blank node.
+ */
+export function hasBlankNode(quad: Quad): boolean {
+  return quad.subject.termType === 'BlankNode' || quad.object.termType === 'BlankNode';
+}
+
+/**
+ * Removes duplicate quads, keeping the first occurrence.
+ */
+export function uniqueQuads(quads: Quad[]): Quad[] {
+  const seen = new Set<string>();
+  return quads.filter((quad): boolean => {
+    const key = quadKey(quad);
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Returns all quads of `source` that are not in `remove`.
+ * Blank nodes are compared by label, so both sets should originate from the same parse.
+ */
+export function subtractQuads(source: Quad[], remove: Quad[]): Quad[] {
+  const keys = new Set(remove.map(quadKey));
+  return source.filter((quad): boolean => !keys.has(quadKey(quad)));
+}
+
+/**
+ * Determines which quads need to be deleted and inserted to go from `current` to `desired`.
+ * Quads present in both sets are left untouched,
+ * so identical inputs result in two empty lists.
+ */
+export function diffQuads(current: Quad[], desired: Quad[]): { deletes: Quad[]; inserts: Quad[] } {
+  const uniqueCurrent = uniqueQuads(current);
+  const uniqueDesired = uniqueQuads(desired);
+  return {
+    deletes: subtractQuads(uniqueCurrent, uniqueDesired),
+    inserts: subtractQuads(uniqueDesired, uniqueCurrent),
+  };
+}
+
+/**
+ * Finds all quads describing the given node.
+ * Objects for which `follow` returns true are described recursively,
+ * so the result contains the full subgraph of entries such as roles and accounts.
+ *
+ * @param quads - Quads to search through.
+ * @param root - Node of which the description is needed.
+ * @param follow - Determines if the description of an object node is part of the subgraph.
+ */
+export function getSubgraph(quads: Quad[], root: Term, follow: (term: Term) => boolean): Quad[] {
+  const result: Quad[] = [];
+  const visited = new Set<string>();
+  const queue: Term[] = [ root ];
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    const key = termKey(node);
+    if (visited.has(key)) {
+      continue;
+    }
+    visited.add(key);
+    for (const quad of quads) {
+      if (quad.subject.equals(node)) {
+        result.push(quad);
+        if (follow(quad.object)) {
+          queue.push(quad.object);
+        }
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Creates an IRI in the given document that stays the same as long as the input values do not change.
+ * Used to give structured profile entries an identifier that survives round-trips,
+ * instead of a blank node that gets a new label every time.
+ *
+ * @param documentUrl - URL of the document the IRI belongs to.
+ * @param prefix - Prefix of the fragment, indicating what kind of entry this is.
+ * @param values - Values identifying the entry.
+ */
+export function createStableIri(documentUrl: string, prefix: string, values: unknown[]): string {
+  const hash = createHash('sha256').update(JSON.stringify(values)).digest('hex').slice(0, 16);
+  return `${documentUrl}#${prefix}-${hash}`;
+}
+
+/**
+ * Creates a hash representing the given set of quads, independent of their order.
+ * Blank node labels are ignored as they differ every time a document is parsed.
+ */
+export function hashQuads(quads: Quad[]): string {
+  const keys = uniqueQuads(quads).map((quad): string => quadKey(quad).replaceAll(/BlankNode:\S*/gu, 'BlankNode'));
+  return createHash('sha256').update(keys.sort().join('\n')).digest('hex').slice(0, 32);
+}
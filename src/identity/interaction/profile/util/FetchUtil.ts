@@ -0,0 +1,87 @@
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP } from 'node:net';
+
+// Maximum number of redirects followed by default
+const MAX_REDIRECTS = 5;
+
+// Addresses URLs from profiles can not be fetched from: loopback, private, link-local and other non-public ranges
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [ network, prefix ] of [
+  [ '0.0.0.0', 8 ],
+  [ '10.0.0.0', 8 ],
+  [ '100.64.0.0', 10 ],
+  [ '127.0.0.0', 8 ],
+  [ '169.254.0.0', 16 ],
+  [ '172.16.0.0', 12 ],
+  [ '192.0.0.0', 24 ],
+  [ '192.168.0.0', 16 ],
+  [ '198.18.0.0', 15 ],
+  [ '224.0.0.0', 3 ],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges,
+// a range for all of them would also block every IPv4 address
+for (const [ network, prefix ] of [
+  [ '::', 127 ],
+  [ '64:ff9b::', 96 ],
+  [ 'fc00::', 7 ],
+  [ 'fe80::', 10 ],
+  [ 'ff00::', 8 ],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Checks if the URL is HTTP(S) and its host only resolves to public addresses.
+ * Throws an error if the host can not be resolved.
+ *
+ * @param url - URL to check.
+ */
+export async function isPublicUrl(url: string): Promise<boolean> {
+  const { protocol, hostname } = new URL(url);
+  if (protocol !== 'http:' && protocol !== 'https:') {
+    return false;
+  }
+  // IPv6 addresses are between brackets in URLs
+  const host = hostname.replace(/^\[(.*)\]$/u, '$1');
+  const addresses = isIP(host) ? [{ address: host, family: isIP(host) }] : await lookup(host, { all: true });
+  return addresses.every(({ address, family }): boolean =>
+    !BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'));
+}
+
+/**
+ * Throws an error if the URL is not HTTP(S) or its host resolves to an address that is not public.
+ *
+ * @param url - URL to check.
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  if (!await isPublicUrl(url)) {
+    throw new Error(`${url} is not a public HTTP(S) URL`);
+  }
+}
+
+/**
+ * Fetches a URL that was entered by a user, so the server can not be used to reach internal services.
+ * Redirects are followed manually, so every URL on the way is checked with {@link assertPublicUrl}.
+ * The `url` of the response is the URL it was eventually fetched from.
+ *
+ * @param url - URL to fetch.
+ * @param init - Options of the request, the `redirect` option is ignored.
+ * @param maxRedirects - Maximum number of redirects to follow.
+ */
+export async function fetchPublicUrl(url: string, init: RequestInit = {}, maxRedirects = MAX_REDIRECTS):
+Promise<Response> {
+  let location = url;
+  for (let redirects = 0; redirects <= maxRedirects; redirects += 1) {
+    await assertPublicUrl(location);
+    const response = await fetch(location, { ...init, redirect: 'manual' });
+    const next = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !next) {
+      return response;
+    }
+    await response.body?.cancel();
+    location = new URL(next, location).href;
+  }
+  throw new Error(`Fetching ${url} resulted in more than ${maxRedirects} redirects`);
+}
@@ -0,0 +1,152 @@
+import { DataFactory } from 'n3';
+import type { Literal, Term } from '@rdfjs/types';
+import type { RepresentationMetadata } from '@solid/community-server/dist/http/representation/RepresentationMetadata';
+import type { ValuePreferences } from '@solid/community-server/dist/http/representation/RepresentationPreferences';
+import { parseAcceptLanguage } from '@solid/community-server/dist/util/HeaderUtil';
+import Dict = NodeJS.Dict;
+import { ACCEPT_LANGUAGE } from '../../../../http/input/metadata/AcceptLanguageParser';
+
+/**
+ * Key of a language map for the value without language, as in JSON-LD.
+ */
+export const LANGUAGE_NONE = '@none';
+
+/**
+ * A text in several languages, following the JSON-LD language map syntax,
+ * such as `{ "en": "Developer", "nl": "Ontwikkelaar" }`.
+ */
+export type LanguageMap = Dict<string>;
+
+/**
+ * A text without language, or a {@link LanguageMap} with its translations.
+ */
+export type LocalizedText = string | LanguageMap;
+
+const LANGUAGE_TAG_REGEX = /^[a-z]{1,8}(?:-[\da-z]{1,8})*$/iu;
+
+/**
+ * Checks if a key of a language map is a language tag, such as `en` or `en-GB`, or {@link LANGUAGE_NONE}.
+ */
+export function isLanguageKey(key: string): boolean {
+  return key === LANGUAGE_NONE || LANGUAGE_TAG_REGEX.test(key);
+}
+
+/**
+ * Checks if the value is a language map, which is an object with a string for every key.
+ * JSON-LD value objects, which have an `@value`, are no language maps.
+ */
+export function isLanguageMap(value: unknown): value is LanguageMap {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !('@value' in value) &&
+    Object.values(value).every((text): boolean => typeof text === 'string');
+}
+
+/**
+ * Converts a text to a language map, with a text without language under {@link LANGUAGE_NONE}.
+ */
+export function toLanguageMap(value: LocalizedText): LanguageMap {
+  return typeof value === 'string' ? { [LANGUAGE_NONE]: value } : value;
+}
+
+/**
+ * Adds the text in the given language to a localized text, replacing the text that was there in that language.
+ * A text that only exists without language stays a string, so profiles without translations are not affected.
+ */
+export function addLocalizedText(current: LocalizedText | undefined, text: string, language?: string):
+LocalizedText {
+  const map: LanguageMap = { ...current === undefined ? {} : toLanguageMap(current) };
+  map[language ? language.toLowerCase() : LANGUAGE_NONE] = text;
+  const keys = Object.keys(map);
+  return keys.length === 1 && keys[0] === LANGUAGE_NONE ? text : map;
+}
+
+/**
+ * Reads a literal into a localized text, keeping the texts in the other languages.
+ * Returns the current text if the term is not a literal.
+ */
+export function addLocalizedTerm(current: LocalizedText | undefined, term: Term): LocalizedText | undefined {
+  return term.termType === 'Literal' ? addLocalizedText(current, term.value, term.language) : current;
+}
+
+/**
+ * Converts a localized text to a literal per language.
+ * Language tags are lowercased, as RDF parsers do, so they can be compared with the stored literals.
+ */
+export function toLocalizedLiterals(value: LocalizedText | undefined): Literal[] {
+  if (value === undefined || value === '') {
+    return [];
+  }
+  return Object.entries(toLanguageMap(value))
+    .filter((entry): entry is [ string, string ] => typeof entry[1] === 'string' && entry[1].length > 0)
+    .map(([ language, text ]): Literal =>
+      DataFactory.literal(text, language === LANGUAGE_NONE ? undefined : language.toLowerCase()));
+}
+
+/**
+ * Returns the languages of an `Accept-Language` header, or of parsed language preferences,
+ * with the most preferred language first. Languages with a weight of 0 are not accepted and left out.
+ */
+export function parseLanguagePreferences(preferences?: string | ValuePreferences): string[] {
+  let weights: ValuePreferences = {};
+  if (typeof preferences === 'string') {
+    for (const { range, weight } of parseAcceptLanguage(preferences)) {
+      weights[range] = weight;
+    }
+  } else {
+    weights = preferences ?? {};
+  }
+  return Object.entries(weights)
+    .filter(([ , weight ]): boolean => weight > 0)
+    .sort(([ , left ], [ , right ]): number => right - left)
+    .map(([ range ]): string => range.toLowerCase());
+}
+
+/**
+ * Returns the languages accepted by a request, most preferred first,
+ * based on the `Accept-Language` header stored in its metadata by the `AcceptLanguageParser`.
+ */
+export function getAcceptedLanguages(metadata?: RepresentationMetadata): string[] {
+  return parseLanguagePreferences(metadata?.get(ACCEPT_LANGUAGE)?.value);
+}
+
+/**
+ * Finds the key of the language map that best matches the language, if any.
+ * An exact match comes first, then a more generic language, such as `en` for `en-gb`,
+ * and then a more specific one, such as `en-gb` for `en`.
+ */
+function matchLanguage(keys: string[], language: string): string | undefined {
+  if (language === '*') {
+    return keys.find((key): boolean => key !== LANGUAGE_NONE);
+  }
+  const lowerKeys = keys.map((key): string => key.toLowerCase());
+  const index = [
+    lowerKeys.indexOf(language),
+    lowerKeys.findIndex((key): boolean => language.startsWith(`${key}-`)),
+    lowerKeys.findIndex((key): boolean => key.startsWith(`${language}-`)),
+  ].find((position): boolean => position >= 0);
+  return index === undefined ? undefined : keys[index];
+}
+
+/**
+ * Returns the text that best matches the preferred languages, most preferred first.
+ * Falls back to the text without language, and then to the first text.
+ * JSON-LD value objects and strings are returned as text.
+ */
+export function pickLanguage(value: unknown, languages: string[]): string | undefined {
+  if (typeof value === 'string') {
+    return value.length > 0 ? value : undefined;
+  }
+  if (typeof value === 'object' && value !== null && typeof (value as Dict<unknown>)['@value'] === 'string') {
+    return (value as Dict<string>)['@value'];
+  }
+  if (!isLanguageMap(value)) {
+    return;
+  }
+  const keys = Object.keys(value).filter((key): boolean => Boolean(value[key]));
+  for (const language of languages) {
+    const key = matchLanguage(keys, language);
+    if (key) {
+      return value[key];
+    }
+  }
+  return keys.includes(LANGUAGE_NONE) ? value[LANGUAGE_NONE] : value[keys[0]];
+}
@@ -0,0 +1,132 @@
+import type { Json } from '@solid/community-server/dist/util/Json';
+import Dict = NodeJS.Dict;
+import type { ProfileData } from '../ProfileHandler';
+import type { ValidationError } from '../validation/ProfileValidator';
+import { isLanguageMap, LANGUAGE_NONE, toLanguageMap } from './LanguageUtil';
+
+/**
+ * Keys of a partial update that are not part of the profile, and are passed on as they are.
+ */
+const UPDATE_KEYS = [ 'webId', 'version' ];
+
+function isObject(value: unknown): value is Dict<Json> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Keys of the objects that are operations on a list.
+ * They start with a `$` so they can not be confused with language tags or other object keys.
+ */
+const LIST_OPERATIONS = [ '$add', '$remove' ] as const;
+
+type ListOperation = { $add?: Json; $remove?: Json };
+
+/**
+ * Determines if a value is an operation on a list, such as `{ "$add": [ "…" ] }`,
+ * instead of a value replacing the list.
+ */
+function isListOperation(value: unknown): value is ListOperation {
+  const keys = isObject(value) ? Object.keys(value) : [];
+  return keys.length > 0 &&
+    keys.every((key): boolean => LIST_OPERATIONS.includes(key as typeof LIST_OPERATIONS[number]));
+}
+
+/**
+ * Determines if an entry of a list matches a value of a list operation.
+ * Objects match if all their keys have the same value in the entry,
+ * so an entry can be removed by its `id`, or by some of its values, such as `{ "email": "…" }`.
+ */
+function matchesEntry(entry: Json, value: Json): boolean {
+  if (isObject(entry) && isObject(value)) {
+    return Object.entries(value).every(([ key, part ]): boolean =>
+      JSON.stringify(entry[key]) === JSON.stringify(part));
+  }
+  return JSON.stringify(entry) === JSON.stringify(value);
+}
+
+/**
+ * Applies a list operation to the current values of a list.
+ * Values are only added if no entry matches them yet, removed values that are not in the list are ignored.
+ */
+function applyListOperation(key: string, current: Json | undefined, operation: ListOperation):
+{ values?: Json[]; errors: ValidationError[] } {
+  const errors: ValidationError[] = [];
+  if (current !== undefined && !Array.isArray(current)) {
+    errors.push({ path: key, code: 'type', message: `${key} is not a list, so values can not be added or removed` });
+  }
+  for (const name of LIST_OPERATIONS) {
+    if (operation[name] !== undefined && !Array.isArray(operation[name])) {
+      errors.push({ path: `${key}.${name}`, code: 'type', message: `${key}.${name} must be a list` });
+    }
+  }
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const removed = (operation.$remove ?? []) as Json[];
+  const values = ((current ?? []) as Json[])
+    .filter((entry): boolean => !removed.some((value): boolean => matchesEntry(entry, value)));
+  for (const value of (operation.$add ?? []) as Json[]) {
+    if (!values.some((entry): boolean => matchesEntry(entry, value))) {
+      values.push(value);
+    }
+  }
+  return { values, errors };
+}
+
+/**
+ * Merges an object of the update into the current value, where `null` removes a key.
+ * A text without language is merged with a language map as its value under {@link LANGUAGE_NONE},
+ * so translations can be added to a text without repeating it,
+ * and a language map that ends up with only that value becomes a text again.
+ */
+function mergeObject(current: Json | undefined, update: Dict<Json>): Json {
+  const result: Dict<Json> = typeof current === 'string' && isLanguageMap(update) ?
+    { ...toLanguageMap(current) } :
+    { ...isObject(current) ? current : {}};
+  for (const [ key, value ] of Object.entries(update)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = value;
+    }
+  }
+  const keys = Object.keys(result);
+  return keys.length === 1 && keys[0] === LANGUAGE_NONE && isLanguageMap(result) ? result[LANGUAGE_NONE]! : result;
+}
+
+/**
+ * Applies a partial update to the profile, following the semantics of JSON Merge Patch (RFC 7396):
+ * keys that are not in the update are kept and `null` removes a key.
+ * Objects, such as `visibility` and the language maps of texts with translations, are merged the same way.
+ * Lists are replaced by a list, or changed with an object such as `{ "$add": [ … ], "$remove": [ … ] }`.
+ *
+ * The result is the full profile data, which is validated and stored as any other update.
+ */
+export function applyPartialUpdate(profile: ProfileData, update: Dict<Json>):
+{ profile: ProfileData; errors: ValidationError[] } {
+  const result: Dict<Json> = { ...profile };
+  const errors: ValidationError[] = [];
+
+  for (const [ key, value ] of Object.entries(update)) {
+    if (value === undefined || UPDATE_KEYS.includes(key)) {
+      result[key] = value;
+    } else if (value === null) {
+      delete result[key];
+    } else if (isListOperation(value)) {
+      const { values, errors: listErrors } = applyListOperation(key, result[key], value);
+      errors.push(...listErrors);
+      if (values && values.length > 0) {
+        result[key] = values;
+      } else {
+        delete result[key];
+      }
+    } else if (isObject(value)) {
+      result[key] = mergeObject(result[key], value);
+    } else {
+      result[key] = value;
+    }
+  }
+
+  return { profile: result as ProfileData, errors };
+}
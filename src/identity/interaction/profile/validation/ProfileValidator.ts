@@ -0,0 +1,339 @@
+import { BadRequestHttpError } from '@solid/community-server/dist/util/errors/BadRequestHttpError';
+import { errorTermsToMetadata } from '@solid/community-server/dist/util/errors/HttpErrorUtil';
+import { isUrl } from '@solid/community-server/dist/util/StringUtil';
+import { isCountryCode } from '../address/CountryUtil';
+import type { ProfileField } from '../fields/ProfileField';
+import { normalizePhoneNumber } from '../phone/PhoneUtil';
+import { isLanguageKey, isLanguageMap } from '../util/LanguageUtil';
+import { isVisibility, VISIBILITY_LEVELS } from '../visibility/VisibilityUtil';
+import type { Vocabulary } from '../vocabulary/Vocabulary';
+
+/**
+ * Identifies what kind of check a value failed, so clients can react to it without parsing the message.
+ */
+export type ValidationErrorCode = 'type' | 'required' | 'url' | 'email' | 'phone' | 'country' | 'date' | 'pattern' |
+  'maxLength' | 'enum' | 'order' | 'vocabulary' | 'language' | 'unknown';
+
+/**
+ * A single problem with the submitted profile data.
+ * The `path` points to the value, such as `name`, `skills[2]` or `organizations[0].startDate`.
+ */
+export type ValidationError = {
+  path: string;
+  code: ValidationErrorCode;
+  message: string;
+};
+
+/**
+ * Describes a property of the entries of the structured parts of the profile.
+ */
+export interface PropertySchema {
+  type: 'string' | 'boolean';
+  required?: boolean;
+  // `date` accepts a year, a year and month, or a full date, `phone` a number that can be normalized to E.164,
+  // `country` an ISO 3166-1 alpha-2 code
+  format?: 'url' | 'email' | 'phone' | 'country' | 'date';
+  maxLength?: number;
+  enum?: string[];
+  // The string can also be a language map with a translation per language, such as `{ "en": "…", "nl": "…" }`
+  multilingual?: boolean;
+}
+
+export type EntrySchema = Record<string, PropertySchema>;
+
+/**
+ * Loose check of the format of an email address, the verification email determines if it actually works.
+ */
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+$/u;
+
+const DATE_REGEX = /^\d{4}(?:-(?:0[1-9]|1[0-2])(?:-(?:0[1-9]|[12]\d|3[01]))?)?$/u;
+
+/**
+ * Data URIs of the photo formats that can be uploaded.
+ */
+const PHOTO_DATA_REGEX = /^data:image\/(?:jpeg|jpg|png|gif|webp);base64,/u;
+
+/**
+ * Keys of older versions that have been replaced, with the key replacing them,
+ * so clients still sending them get an error instead of their data being ignored.
+ */
+const REPLACED_KEYS: Record<string, string> = { phone: 'phones' };
+const REPLACED_VISIBILITY_KEYS: Record<string, string> = { email: 'emails', phone: 'phones' };
+
+/**
+ * Maximum length of strings in the entries, unless the schema sets another one.
+ */
+const DEFAULT_MAX_LENGTH = 500;
+
+/**
+ * Schemas of the entries of the structured parts of the profile.
+ */
+export const ENTRY_SCHEMAS: Record<'emails' | 'phones' | 'addresses' | 'accounts' | 'organizations', EntrySchema> = {
+  emails: {
+    id: { type: 'string', format: 'url' },
+    email: { type: 'string', required: true, format: 'email', maxLength: 254 },
+    type: { type: 'string', maxLength: 50 },
+  },
+  phones: {
+    id: { type: 'string', format: 'url' },
+    phone: { type: 'string', required: true, format: 'phone', maxLength: 50 },
+    type: { type: 'string', maxLength: 50 },
+  },
+  addresses: {
+    id: { type: 'string', format: 'url' },
+    type: { type: 'string', maxLength: 50 },
+    streetAddress: { type: 'string' },
+    locality: { type: 'string', required: true, maxLength: 200 },
+    region: { type: 'string', maxLength: 200 },
+    postalCode: { type: 'string', maxLength: 20 },
+    country: { type: 'string', required: true, format: 'country' },
+    visibility: { type: 'string', enum: VISIBILITY_LEVELS },
+  },
+  accounts: {
+    id: { type: 'string', format: 'url' },
+    type: { type: 'string', required: true, maxLength: 100 },
+    accountName: { type: 'string', required: true },
+    accountServiceHomepage: { type: 'string', format: 'url' },
+    icon: { type: 'string', format: 'url' },
+    label: { type: 'string', maxLength: 100 },
+  },
+  organizations: {
+    id: { type: 'string', format: 'url' },
+    organization: { type: 'string' },
+    organizationName: { type: 'string', maxLength: 200 },
+    organizationHomepage: { type: 'string', format: 'url' },
+    organizationLogo: { type: 'string', format: 'url' },
+    role: { type: 'string', maxLength: 200, multilingual: true },
+    startDate: { type: 'string', format: 'date' },
+    endDate: { type: 'string', format: 'date' },
+    description: { type: 'string', maxLength: 5000, multilingual: true },
+    roleType: { type: 'string', enum: [ 'CurrentRole', 'PastRole', 'FutureRole' ]},
+  },
+};
+
+/**
+ * Checks a single value against its schema.
+ */
+function validateProperty(path: string, value: unknown, schema: PropertySchema): ValidationError | undefined {
+  if (value === undefined || value === null || value === '') {
+    return schema.required ? { path, code: 'required', message: `${path} is required` } : undefined;
+  }
+  if (schema.multilingual && isLanguageMap(value)) {
+    for (const [ language, text ] of Object.entries(value)) {
+      const error = isLanguageKey(language) ?
+        validateProperty(`${path}.${language}`, text, { ...schema, multilingual: false }) :
+        { path: `${path}.${language}`, code: 'language' as const,
+          message: `${path}.${language}: ${language} is not a valid language tag` };
+      if (error) {
+        return error;
+      }
+    }
+    return;
+  }
+  if (typeof value !== schema.type) {
+    return { path, code: 'type', message: `${path} must be a ${schema.type}` };
+  }
+  if (typeof value !== 'string') {
+    return;
+  }
+  const maxLength = schema.maxLength ?? DEFAULT_MAX_LENGTH;
+  if (value.length > maxLength) {
+    return { path, code: 'maxLength', message: `${path} can not be longer than ${maxLength} characters` };
+  }
+  if (schema.format === 'url' && !isUrl(value)) {
+    return { path, code: 'url', message: `${path} must be a valid URL` };
+  }
+  if (schema.format === 'email' && !EMAIL_REGEX.test(value)) {
+    return { path, code: 'email', message: `${path} must be a valid email address` };
+  }
+  if (schema.format === 'phone' && !normalizePhoneNumber(value)) {
+    return { path, code: 'phone',
+      message: `${path} must be a phone number including the country code, such as +44 20 7946 0958` };
+  }
+  if (schema.format === 'country' && !isCountryCode(value)) {
+    return { path, code: 'country', message: `${path} must be an ISO 3166-1 alpha-2 country code, such as GB` };
+  }
+  if (schema.format === 'date' && !DATE_REGEX.test(value)) {
+    return { path, code: 'date', message: `${path} must be a date formatted as YYYY-MM-DD` };
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return { path, code: 'enum', message: `${path} must be one of ${schema.enum.join(', ')}` };
+  }
+}
+
+/**
+ * Checks a list of entries against the schema of its entries.
+ * Properties that are not part of the schema are ignored, as they are not stored.
+ */
+export function validateEntries(key: string, value: unknown, schema: EntrySchema): ValidationError[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    return [{ path: key, code: 'type', message: `${key} must be an array` }];
+  }
+
+  const errors: ValidationError[] = [];
+  for (const [ index, entry ] of value.entries()) {
+    const path = `${key}[${index}]`;
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+      errors.push({ path, code: 'type', message: `${path} must be an object` });
+      continue;
+    }
+    for (const [ property, propertySchema ] of Object.entries(schema)) {
+      const error = validateProperty(`${path}.${property}`, (entry as Record<string, unknown>)[property],
+        propertySchema);
+      if (error) {
+        errors.push(error);
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Checks that roles do not end before they start.
+ */
+function validateRoleDates(organizations: unknown[]): ValidationError[] {
+  const errors: ValidationError[] = [];
+  for (const [ index, entry ] of organizations.entries()) {
+    const { startDate, endDate, roleType } = (entry ?? {}) as Record<string, unknown>;
+    const path = `organizations[${index}]`;
+    if (typeof startDate === 'string' && typeof endDate === 'string' && DATE_REGEX.test(startDate) &&
+      DATE_REGEX.test(endDate) && endDate < startDate) {
+      errors.push({ path: `${path}.endDate`, code: 'order',
+        message: `${path}.endDate can not be before the start date` });
+    }
+    if (roleType === 'CurrentRole' && typeof endDate === 'string' && endDate.length > 0) {
+      errors.push({ path: `${path}.endDate`, code: 'order',
+        message: `${path} is a current role and can not have an end date` });
+    }
+  }
+  return errors;
+}
+
+/**
+ * Validates profile data.
+ * Fields of the registry validate their own values,
+ * the structured parts of the profile are checked against the {@link ENTRY_SCHEMAS}.
+ *
+ * @param data - The submitted profile data.
+ * @param fields - The fields of the registry.
+ * @param visibilityKeys - The keys of which the visibility can be set.
+ */
+export function validateProfileData(data: unknown, fields: ProfileField[], visibilityKeys: string[]):
+ValidationError[] {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return [{ path: '', code: 'type', message: 'Profile data must be an object' }];
+  }
+
+  const profile = data as Record<string, unknown>;
+  const errors: ValidationError[] = [];
+
+  // Validate the WebID selector
+  if (profile.webId !== undefined && (typeof profile.webId !== 'string' || !isUrl(profile.webId))) {
+    errors.push({ path: 'webId', code: 'url', message: 'webId must be a valid URL' });
+  }
+
+  // Validate the version the update is based on
+  if (profile.version !== undefined && typeof profile.version !== 'string') {
+    errors.push({ path: 'version', code: 'type', message: 'version must be a string' });
+  }
+
+  for (const field of fields) {
+    // A base64 data URI photo gets uploaded to the pod and replaced by its URL before storing
+    if (field.key === 'photo' && typeof profile.photo === 'string' && profile.photo.startsWith('data:')) {
+      if (!PHOTO_DATA_REGEX.test(profile.photo)) {
+        errors.push({ path: 'photo', code: 'url',
+          message: 'photo must be a valid URL or base64 data URI (data:image/...;base64,...)' });
+      }
+      continue;
+    }
+    errors.push(...field.validate(profile[field.key]));
+  }
+
+  for (const [ key, replacement ] of Object.entries(REPLACED_KEYS)) {
+    if (profile[key] !== undefined) {
+      errors.push({ path: key, code: 'unknown', message: `${key} has been replaced by ${replacement}` });
+    }
+  }
+
+  for (const key of [ 'publishEmail', 'listInDirectory' ]) {
+    if (profile[key] !== undefined && typeof profile[key] !== 'boolean') {
+      errors.push({ path: key, code: 'type', message: `${key} must be a boolean` });
+    }
+  }
+
+  for (const [ key, schema ] of Object.entries(ENTRY_SCHEMAS)) {
+    errors.push(...validateEntries(key, profile[key], schema));
+  }
+  if (Array.isArray(profile.organizations)) {
+    errors.push(...validateRoleDates(profile.organizations));
+  }
+
+  // Validate the visibility settings
+  if (profile.visibility !== undefined) {
+    if (typeof profile.visibility !== 'object' || profile.visibility === null || Array.isArray(profile.visibility)) {
+      errors.push({ path: 'visibility', code: 'type', message: 'visibility must be an object' });
+    } else {
+      for (const [ key, level ] of Object.entries(profile.visibility)) {
+        if (!visibilityKeys.includes(key)) {
+          const replacement = REPLACED_VISIBILITY_KEYS[key];
+          errors.push({ path: `visibility.${key}`, code: 'unknown', message: replacement ?
+            `${key} has been replaced by ${replacement} in visibility` :
+            `Unknown field ${key} in visibility` });
+        } else if (!isVisibility(level)) {
+          errors.push({ path: `visibility.${key}`, code: 'enum',
+            message: `visibility of ${key} must be one of ${VISIBILITY_LEVELS.join(', ')}` });
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Checks that the values of the fields with a vocabulary are terms of that vocabulary,
+ * if they are part of its namespace.
+ * Values outside of the namespace are accepted, they are listed in the profile report instead.
+ * Vocabularies without terms, such as a file that could not be loaded, do not restrict the values.
+ * Should be called with data that passed {@link validateProfileData}.
+ *
+ * @param data - The submitted profile data.
+ * @param fields - The fields of the registry.
+ * @param vocabularies - The vocabularies, linked to the fields that have their namespace as `vocabulary`.
+ */
+export async function validateVocabularyTerms(data: Record<string, unknown>, fields: ProfileField[],
+  vocabularies: Vocabulary[]): Promise<ValidationError[]> {
+  const errors: ValidationError[] = [];
+  for (const field of fields) {
+    const vocabulary = vocabularies.find((entry): boolean => entry.namespace === field.vocabulary);
+    const value = data[field.key];
+    if (!vocabulary || value === undefined || value === null) {
+      continue;
+    }
+    const terms = await vocabulary.getTerms();
+    if (terms.size === 0) {
+      continue;
+    }
+    for (const [ index, entry ] of (Array.isArray(value) ? value as unknown[] : [ value ]).entries()) {
+      if (typeof entry === 'string' && entry.startsWith(vocabulary.namespace) && !terms.has(entry)) {
+        errors.push({ path: Array.isArray(value) ? `${field.key}[${index}]` : field.key, code: 'vocabulary',
+          message: `${entry} is not a known term of ${vocabulary.namespace}` });
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Creates the 400 error for invalid profile data.
+ * The `errors` in the details of the error contain the list of {@link ValidationError}s as JSON,
+ * so clients can show each of them next to the corresponding input.
+ */
+export function createValidationError(errors: ValidationError[]): BadRequestHttpError {
+  return new BadRequestHttpError(`Invalid profile data: ${errors.map((error): string => error.message).join(', ')}`, {
+    metadata: errorTermsToMetadata({ errors: JSON.stringify(errors) }),
+  });
+}
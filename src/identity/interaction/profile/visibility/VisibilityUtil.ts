@@ -0,0 +1,144 @@
+import { DataFactory } from 'n3';
+import type { Quad } from '@rdfjs/types';
+import Dict = NodeJS.Dict;
+
+const ACL = 'http://www.w3.org/ns/auth/acl#';
+const RDF = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
+
+/**
+ * Who can read a field of the profile:
+ *  - `public`: everyone, stored in the WebID profile document.
+ *  - `contacts`: the WebIDs the profile `knows`, stored in a separate document.
+ *  - `private`: only the owner of the profile, stored in a separate document.
+ */
+export type Visibility = 'public' | 'contacts' | 'private';
+
+export const VISIBILITY_LEVELS: Visibility[] = [ 'public', 'contacts', 'private' ];
+
+/**
+ * Names of the documents, relative to the WebID profile document, storing the fields that are not public.
+ */
+const VISIBILITY_DOCUMENTS: Record<Exclude<Visibility, 'public'>, string> = {
+  contacts: 'contacts.ttl',
+  private: 'private.ttl',
+};
+
+export function isVisibility(value: unknown): value is Visibility {
+  return VISIBILITY_LEVELS.includes(value as Visibility);
+}
+
+/**
+ * Returns the URL of the document that contains the fields with the given visibility.
+ */
+export function getVisibilityDocumentUrl(webId: string, visibility: Visibility): string {
+  const url = new URL(visibility === 'public' ? webId : VISIBILITY_DOCUMENTS[visibility], webId);
+  url.hash = '';
+  return url.href;
+}
+
+/**
+ * Splits the quads of a profile over the documents they need to be stored in.
+ * Only quads with the WebID as subject can be hidden,
+ * together with the description of the entries they link to, such as the nodes of contact email addresses.
+ * All other quads, and those of fields without a visibility setting, are public.
+ * Entries with their own visibility, such as addresses, are stored according to that instead.
+ *
+ * @param webId - WebID of the profile.
+ * @param quads - Quads describing the profile.
+ * @param visibility - Visibility of the fields, with the field keys as keys.
+ * @param keyPredicates - Predicates of each field.
+ * @param entryVisibility - Visibility of single entries, with the IRIs of their nodes as keys.
+ */
+export function splitByVisibility(webId: string, quads: Quad[], visibility: Dict<Visibility>,
+  keyPredicates: Record<string, string[]>, entryVisibility: Dict<Visibility> = {}): Record<Visibility, Quad[]> {
+  const levels = new Map<string, Visibility>();
+  for (const [ key, level ] of Object.entries(visibility)) {
+    for (const predicate of keyPredicates[key] ?? []) {
+      levels.set(predicate, level!);
+    }
+  }
+
+  // Entries linked from hidden fields are stored in the same document as the link
+  const entryLevels = new Map<string, Visibility>();
+  const getLinkLevel = (quad: Quad): Visibility | undefined =>
+    (quad.object.termType === 'NamedNode' ? entryVisibility[quad.object.value] : undefined) ??
+    levels.get(quad.predicate.value);
+  for (const quad of quads) {
+    const level = quad.subject.value === webId ? getLinkLevel(quad) : undefined;
+    if (level && quad.object.termType !== 'Literal') {
+      entryLevels.set(quad.object.value, level);
+    }
+  }
+
+  const result: Record<Visibility, Quad[]> = { public: [], contacts: [], private: []};
+  for (const quad of quads) {
+    const level = quad.subject.value === webId ?
+      getLinkLevel(quad) :
+      entryLevels.get(quad.subject.value);
+    result[level ?? 'public'].push(quad);
+  }
+  return result;
+}
+
+/**
+ * Determines the visibility of the fields based on the document they were found in.
+ * Only fields that are not public are included in the result.
+ *
+ * @param webId - WebID of the profile.
+ * @param documentQuads - The quads found in each of the documents.
+ * @param keyPredicates - Predicates of each field.
+ */
+export function extractVisibility(webId: string, documentQuads: Record<Visibility, Quad[]>,
+  keyPredicates: Record<string, string[]>): Dict<Visibility> {
+  const keys = new Map<string, string>();
+  for (const [ key, predicates ] of Object.entries(keyPredicates)) {
+    for (const predicate of predicates) {
+      keys.set(predicate, key);
+    }
+  }
+
+  const visibility: Dict<Visibility> = {};
+  for (const level of VISIBILITY_LEVELS.filter((entry): boolean => entry !== 'public')) {
+    for (const quad of documentQuads[level]) {
+      const key = quad.subject.value === webId ? keys.get(quad.predicate.value) : undefined;
+      if (key) {
+        visibility[key] = level;
+      }
+    }
+  }
+  return visibility;
+}
+
+/**
+ * Creates the WAC authorizations of a document that is not public.
+ * The owner gets full control, and the given agents can read the document.
+ *
+ * @param aclUrl - URL of the ACL resource.
+ * @param documentUrl - URL of the document the ACL applies to.
+ * @param owner - WebID of the owner of the profile.
+ * @param readers - WebIDs that can read the document.
+ */
+export function createAclQuads(aclUrl: string, documentUrl: string, owner: string, readers: string[]): Quad[] {
+  const { namedNode, quad } = DataFactory;
+  const document = namedNode(documentUrl);
+  const ownerNode = namedNode(`${aclUrl}#owner`);
+  const quads: Quad[] = [
+    quad(ownerNode, namedNode(`${RDF}type`), namedNode(`${ACL}Authorization`)),
+    quad(ownerNode, namedNode(`${ACL}agent`), namedNode(owner)),
+    quad(ownerNode, namedNode(`${ACL}accessTo`), document),
+    quad(ownerNode, namedNode(`${ACL}mode`), namedNode(`${ACL}Read`)),
+    quad(ownerNode, namedNode(`${ACL}mode`), namedNode(`${ACL}Write`)),
+    quad(ownerNode, namedNode(`${ACL}mode`), namedNode(`${ACL}Control`)),
+  ];
+
+  if (readers.length > 0) {
+    const readersNode = namedNode(`${aclUrl}#readers`);
+    quads.push(
+      quad(readersNode, namedNode(`${RDF}type`), namedNode(`${ACL}Authorization`)),
+      ...readers.map((reader): Quad => quad(readersNode, namedNode(`${ACL}agent`), namedNode(reader))),
+      quad(readersNode, namedNode(`${ACL}accessTo`), document),
+      quad(readersNode, namedNode(`${ACL}mode`), namedNode(`${ACL}Read`)),
+    );
+  }
+  return quads;
+}
@@ -0,0 +1,112 @@
+import { readFile } from 'node:fs/promises';
+import { getLoggerFor } from '@solid/community-server/dist/logging/LogUtil';
+import { createErrorMessage } from '@solid/community-server/dist/util/errors/ErrorUtil';
+import { resolveAssetPath } from '@solid/community-server/dist/util/PathUtil';
+import { parseCsv } from '../util/CsvUtil';
+import type { VocabularyTerm } from './Vocabulary';
+import { Vocabulary } from './Vocabulary';
+
+/**
+ * A binding of a SPARQL JSON result, as returned by the Wikidata query service.
+ */
+type SparqlBinding = Record<string, { type: string; value: string } | undefined>;
+
+/**
+ * Reads the terms of an ESCO CSV export, such as `skills_en.csv`,
+ * from its `conceptUri`, `preferredLabel` and `altLabels` columns.
+ * The alternative labels are separated by line breaks.
+ */
+function parseEscoCsv(text: string): VocabularyTerm[] {
+  const [ header, ...rows ] = parseCsv(text.replace(/^\uFEFF/u, ''));
+  const uriIndex = header?.indexOf('conceptUri') ?? -1;
+  const labelIndex = header?.indexOf('preferredLabel') ?? -1;
+  const altLabelIndex = header?.indexOf('altLabels') ?? -1;
+  if (uriIndex < 0 || labelIndex < 0) {
+    throw new Error('CSV files need a conceptUri and preferredLabel column, as in the ESCO exports.');
+  }
+  return rows.filter((row): boolean => Boolean(row[uriIndex] && row[labelIndex])).map((row): VocabularyTerm => ({
+    uri: row[uriIndex],
+    label: row[labelIndex],
+    altLabels: altLabelIndex < 0 ?
+      undefined :
+      (row[altLabelIndex] ?? '').split(/\r?\n/u).map((label): string => label.trim()).filter(Boolean),
+  }));
+}
+
+/**
+ * Reads the terms of SPARQL JSON results, such as a Wikidata query for `?item ?itemLabel ?itemAltLabel`.
+ * The first variable with IRIs is the term, its label is the variable with `Label` appended, or `label`.
+ * The alternative labels of Wikidata are separated by commas.
+ */
+function parseSparqlResults(bindings: SparqlBinding[], variables: string[]): VocabularyTerm[] {
+  const variable = variables.find((name): boolean => bindings.some((binding): boolean => binding[name]?.type === 'uri'));
+  if (!variable) {
+    throw new Error('The SPARQL results do not contain a variable with IRIs.');
+  }
+  const terms: VocabularyTerm[] = [];
+  for (const binding of bindings) {
+    const uri = binding[variable]?.value;
+    const label = binding[`${variable}Label`]?.value ?? binding.label?.value;
+    if (!uri || !label) {
+      continue;
+    }
+    const altLabels = binding[`${variable}AltLabel`]?.value ?? binding.altLabel?.value;
+    terms.push({ uri, label, altLabels: altLabels?.split(',').map((entry): string => entry.trim()).filter(Boolean) });
+  }
+  return terms;
+}
+
+/**
+ * Reads the terms of a JSON file, which is either a list of {@link VocabularyTerm}s or SPARQL JSON results.
+ */
+function parseJson(text: string): VocabularyTerm[] {
+  const data = JSON.parse(text) as unknown;
+  if (Array.isArray(data)) {
+    return (data as Partial<VocabularyTerm>[]).filter((term): boolean =>
+      typeof term?.uri === 'string' && typeof term.label === 'string') as VocabularyTerm[];
+  }
+  const { head, results } = (data ?? {}) as { head?: { vars?: string[] }; results?: { bindings?: SparqlBinding[] }};
+  if (!Array.isArray(results?.bindings)) {
+    throw new Error('JSON files need to be a list of terms with a uri and label, or SPARQL JSON results.');
+  }
+  return parseSparqlResults(results!.bindings, head?.vars ?? Object.keys(results!.bindings[0] ?? {}));
+}
+
+/**
+ * A vocabulary loaded from a local file, so a large taxonomy can be used without depending on a remote service.
+ * Supported are the CSV exports of [ESCO](https://esco.ec.europa.eu/en/use-esco/download),
+ * SPARQL JSON results, such as those of a Wikidata query,
+ * and JSON lists of terms with a `uri`, `label` and optional `altLabels`.
+ * Files ending in `.csv` are read as CSV, all others as JSON.
+ *
+ * Only the terms in the namespace of the vocabulary are kept.
+ * If the file can not be read the vocabulary is empty, so the server still starts without it.
+ */
+export class FileVocabulary extends Vocabulary {
+  protected readonly logger = getLoggerFor(this);
+
+  private readonly path: string;
+
+  /**
+   * @param namespace - Namespace of the terms, such as `http://data.europa.eu/esco/skill/`.
+   * @param path - Path of the file. Relative paths are resolved against the working directory.
+   */
+  public constructor(namespace: string, path: string) {
+    super(namespace);
+    this.path = path;
+  }
+
+  protected async loadTerms(): Promise<VocabularyTerm[]> {
+    let terms: VocabularyTerm[];
+    try {
+      const text = await readFile(resolveAssetPath(this.path), 'utf8');
+      terms = this.path.toLowerCase().endsWith('.csv') ? parseEscoCsv(text) : parseJson(text);
+    } catch (error: unknown) {
+      this.logger.warn(`Unable to load the vocabulary ${this.namespace} from ${this.path}: ${createErrorMessage(error)}`);
+      return [];
+    }
+    terms = terms.filter((term): boolean => term.uri.startsWith(this.namespace));
+    this.logger.info(`Loaded ${terms.length} terms of ${this.namespace} from ${this.path}`);
+    return terms;
+  }
+}
@@ -0,0 +1,49 @@
+import type { VocabularyTerm } from './Vocabulary';
+import { Vocabulary } from './Vocabulary';
+
+/**
+ * The two-letter ISO 639-1 codes, which are the primary language subtags of the IANA language subtag registry.
+ */
+const LANGUAGE_CODES = (
+  'aa ab ae af ak am an ar as av ay az ba be bg bi bm bn bo br bs ca ce ch co cr cs cu cv cy da de dv dz ee el ' +
+  'en eo es et eu fa ff fi fj fo fr fy ga gd gl gn gu gv ha he hi ho hr ht hu hy hz ia id ie ig ii ik io is it ' +
+  'iu ja jv ka kg ki kj kk kl km kn ko kr ks ku kv kw ky la lb lg li ln lo lt lu lv mg mh mi mk ml mn mr ms mt ' +
+  'my na nb nd ne ng nl nn no nr nv ny oc oj om or os pa pi pl ps pt qu rm rn ro ru rw sa sc sd se sg si sk sl ' +
+  'sm sn so sq sr ss st su sv sw ta te tg th ti tk tl tn to tr ts tt tw ty ug uk ur uz ve vi vo wa wo xh yi yo ' +
+  'za zh zu'
+).split(' ');
+
+/**
+ * The languages of the IANA language subtag registry, as used by SolidOS for `schema:knowsLanguage`.
+ * The list is part of the code, so no network access is needed.
+ * Languages are labeled with their name in the display language,
+ * and can also be found by their name in the language itself, such as "Deutsch".
+ */
+export class LanguageVocabulary extends Vocabulary {
+  private readonly displayLanguage: string;
+
+  /**
+   * @param namespace - Namespace of the language URIs. Defaults to `https://www.w3.org/ns/iana/language-code/`.
+   * @param displayLanguage - Language of the labels. Defaults to `en`.
+   */
+  public constructor(namespace = 'https://www.w3.org/ns/iana/language-code/', displayLanguage = 'en') {
+    super(namespace);
+    this.displayLanguage = displayLanguage;
+  }
+
+  protected async loadTerms(): Promise<VocabularyTerm[]> {
+    const names = new Intl.DisplayNames([ this.displayLanguage ], { type: 'language' });
+    return LANGUAGE_CODES.map((code): VocabularyTerm => {
+      const label = names.of(code) ?? code;
+      const term: VocabularyTerm = { uri: `${this.namespace}${code}`, label };
+      // Names in the language itself are only known for the languages with locale data
+      if (Intl.DisplayNames.supportedLocalesOf([ code ]).length > 0) {
+        const ownName = new Intl.DisplayNames([ code ], { type: 'language' }).of(code);
+        if (ownName && ownName !== label) {
+          term.altLabels = [ ownName ];
+        }
+      }
+      return term;
+    });
+  }
+}
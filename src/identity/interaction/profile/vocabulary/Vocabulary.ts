@@ -0,0 +1,102 @@
+/**
+ * A term of a controlled vocabulary, such as a language or a skill.
+ */
+export type VocabularyTerm = {
+  uri: string;
+  label: string;
+  // Other names the term can be found by, such as synonyms or the name of a language in that language
+  altLabels?: string[];
+};
+
+/**
+ * Makes text comparable by ignoring case and diacritics.
+ */
+export function normalizeText(text: string): string {
+  return text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().trim();
+}
+
+/**
+ * How well a label matches the query, lower is better, undefined if it does not match.
+ */
+function getMatchScore(label: string, query: string): number | undefined {
+  const text = normalizeText(label);
+  if (text === query) {
+    return 0;
+  }
+  if (text.startsWith(query)) {
+    return 1;
+  }
+  if (text.split(/[\s(),/-]+/u).some((word): boolean => word.startsWith(query))) {
+    return 2;
+  }
+  if (text.includes(query)) {
+    return 3;
+  }
+}
+
+/**
+ * A controlled vocabulary the values of a {@link ProfileField} come from, such as a list of languages.
+ * It is linked to the fields that have its `namespace` as `vocabulary`.
+ *
+ * The terms are loaded once, when they are first needed.
+ */
+export abstract class Vocabulary {
+  public readonly namespace: string;
+
+  private terms?: Promise<Map<string, VocabularyTerm>>;
+
+  protected constructor(namespace: string) {
+    this.namespace = namespace;
+  }
+
+  /**
+   * Loads all the terms of the vocabulary.
+   */
+  protected abstract loadTerms(): Promise<VocabularyTerm[]>;
+
+  /**
+   * Returns all the terms of the vocabulary, with their URIs as keys.
+   */
+  public async getTerms(): Promise<Map<string, VocabularyTerm>> {
+    if (!this.terms) {
+      this.terms = this.loadTerms().then((terms): Map<string, VocabularyTerm> =>
+        new Map(terms.map((term): [ string, VocabularyTerm ] => [ term.uri, term ])));
+    }
+    return this.terms;
+  }
+
+  /**
+   * Returns the term with the given URI, if it is part of the vocabulary.
+   */
+  public async getTerm(uri: string): Promise<VocabularyTerm | undefined> {
+    return (await this.getTerms()).get(uri);
+  }
+
+  /**
+   * Finds the terms of which a label, or the end of the URI, matches the query.
+   * Terms with a label starting with the query come first.
+   *
+   * @param query - Text to search for.
+   * @param limit - Maximum number of results.
+   */
+  public async search(query: string, limit: number): Promise<VocabularyTerm[]> {
+    const needle = normalizeText(query);
+    if (needle.length === 0) {
+      return [];
+    }
+
+    const matches: { term: VocabularyTerm; score: number }[] = [];
+    for (const term of (await this.getTerms()).values()) {
+      const scores = [ term.label, ...term.altLabels ?? [], term.uri.slice(this.namespace.length) ]
+        .map((label): number | undefined => getMatchScore(label, needle))
+        .filter((score): score is number => score !== undefined);
+      if (scores.length > 0) {
+        matches.push({ term, score: Math.min(...scores) });
+      }
+    }
+    return matches
+      .sort((left, right): number => left.score - right.score || left.term.label.localeCompare(right.term.label))
+      .slice(0, limit)
+      .map(({ term }): VocabularyTerm => term);
+  }
+}
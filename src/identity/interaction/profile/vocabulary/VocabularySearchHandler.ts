@@ -0,0 +1,48 @@
+import type { JsonRepresentation } from '@solid/community-server/dist/identity/interaction/InteractionUtil';
+import type { JsonInteractionHandlerInput } from '@solid/community-server/dist/identity/interaction/JsonInteractionHandler';
+import { JsonInteractionHandler } from '@solid/community-server/dist/identity/interaction/JsonInteractionHandler';
+import type { JsonView } from '@solid/community-server/dist/identity/interaction/JsonView';
+import { assertAccountId } from '@solid/community-server/dist/identity/interaction/account/util/AccountUtil';
+import { BadRequestHttpError } from '@solid/community-server/dist/util/errors/BadRequestHttpError';
+import type { ProfileHandler } from '../ProfileHandler';
+
+/**
+ * Searches the vocabulary of a profile field, to suggest values while typing.
+ * The POSTed `field` is the key of the field, such as `knowsLanguage` or `skills`,
+ * and the `query` is matched against the labels of the terms.
+ */
+export class VocabularySearchHandler extends JsonInteractionHandler implements JsonView {
+  private readonly profileHandler: ProfileHandler;
+  private readonly limit: number;
+
+  /**
+   * @param profileHandler - Determines the vocabularies of the fields.
+   * @param limit - Maximum number of results. Defaults to 10.
+   */
+  public constructor(profileHandler: ProfileHandler, limit = 10) {
+    super();
+    this.profileHandler = profileHandler;
+    this.limit = limit;
+  }
+
+  public async getView({ accountId }: JsonInteractionHandlerInput): Promise<JsonRepresentation> {
+    assertAccountId(accountId);
+    return { json: { field: 'string', query: 'string' }};
+  }
+
+  public async handle({ accountId, json }: JsonInteractionHandlerInput): Promise<JsonRepresentation> {
+    assertAccountId(accountId);
+    const { field, query } = json as { field?: unknown; query?: unknown };
+    if (typeof query !== 'string') {
+      throw new BadRequestHttpError('A search query is required.');
+    }
+    if (typeof field !== 'string') {
+      throw new BadRequestHttpError('The field to search the vocabulary of is required.');
+    }
+    const vocabulary = this.profileHandler.getVocabulary(field);
+    if (!vocabulary) {
+      throw new BadRequestHttpError(`${field} is not a field with a vocabulary.`);
+    }
+    return { json: { field, results: await vocabulary.search(query, this.limit) }};
+  }
+}
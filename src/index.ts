@@ -1,2 +1,33 @@
+export { AcceptLanguageParser } from './http/input/metadata/AcceptLanguageParser';
+export { MultipartConversionHandler } from './identity/interaction/MultipartConversionHandler';
+export { PatchViewInteractionHandler } from './identity/interaction/PatchViewInteractionHandler';
+export { ContactIndex } from './identity/interaction/profile/contacts/ContactIndex';
+export { ContactResolver } from './identity/interaction/profile/contacts/ContactResolver';
+export { ContactSearchHandler } from './identity/interaction/profile/contacts/ContactSearchHandler';
+export { ProfileDirectory } from './identity/interaction/profile/directory/ProfileDirectory';
+export { ProfileDirectoryHandler } from './identity/interaction/profile/directory/ProfileDirectoryHandler';
+export { ProfileDirectoryRebuildHandler } from './identity/interaction/profile/directory/ProfileDirectoryRebuildHandler';
+export { EmailVerificationService } from './identity/interaction/profile/email/EmailVerificationService';
+export { VerifyEmailHandler } from './identity/interaction/profile/email/VerifyEmailHandler';
+export { ProfileChangeListener } from './identity/interaction/profile/events/ProfileChangeListener';
+export { ProfileNotificationGenerator } from './identity/interaction/profile/events/ProfileNotificationGenerator';
+export { ProfileNotificationListener } from './identity/interaction/profile/events/ProfileNotificationListener';
+export { ProfileWebhookListener } from './identity/interaction/profile/events/ProfileWebhookListener';
+export { ProfileExportHandler } from './identity/interaction/profile/export/ProfileExportHandler';
+export { ProfileField } from './identity/interaction/profile/fields/ProfileField';
+export { ProfileHistory } from './identity/interaction/profile/history/ProfileHistory';
+export { ProfileHistoryHandler } from './identity/interaction/profile/history/ProfileHistoryHandler';
+export { ProfileRevertHandler } from './identity/interaction/profile/history/ProfileRevertHandler';
+export { ProfileImageService } from './identity/interaction/profile/image/ProfileImageService';
+export { ProfileImportHandler } from './identity/interaction/profile/import/ProfileImportHandler';
+export { OrganizationRegistry } from './identity/interaction/profile/organization/OrganizationRegistry';
+export { OrganizationSearchHandler } from './identity/interaction/profile/organization/OrganizationSearchHandler';
+export { ProfileProvisioner } from './identity/interaction/profile/provision/ProfileProvisioner';
+export { ProfileProvisionHandler } from './identity/interaction/profile/provision/ProfileProvisionHandler';
+export { ProfileReportHandler } from './identity/interaction/profile/report/ProfileReportHandler';
+export { FileVocabulary } from './identity/interaction/profile/vocabulary/FileVocabulary';
+export { LanguageVocabulary } from './identity/interaction/profile/vocabulary/LanguageVocabulary';
+export { Vocabulary } from './identity/interaction/profile/vocabulary/Vocabulary';
+export { VocabularySearchHandler } from './identity/interaction/profile/vocabulary/VocabularySearchHandler';
 export { ProfileHandler } from './identity/interaction/profile/ProfileHandler';
-
+export { ProfileToHtmlConverter } from './storage/conversion/ProfileToHtmlConverter';
@@ -0,0 +1,177 @@
+import { getLoggerFor } from '@solid/community-server/dist/logging/LogUtil';
+import { BasicRepresentation } from '@solid/community-server/dist/http/representation/BasicRepresentation';
+import type { Representation } from '@solid/community-server/dist/http/representation/Representation';
+import { BaseTypedRepresentationConverter } from '@solid/community-server/dist/storage/conversion/BaseTypedRepresentationConverter';
+import type { RepresentationConverterArgs } from '@solid/community-server/dist/storage/conversion/RepresentationConverter';
+import { INTERNAL_QUADS } from '@solid/community-server/dist/util/ContentTypes';
+import { NotImplementedHttpError } from '@solid/community-server/dist/util/errors/NotImplementedHttpError';
+import { readableToQuads } from '@solid/community-server/dist/util/StreamUtil';
+import type { TemplateEngine } from '@solid/community-server/dist/util/templates/TemplateEngine';
+import Dict = NodeJS.Dict;
+import { getCountryName } from '../../identity/interaction/profile/address/CountryUtil';
+import { toSchemaPerson } from '../../identity/interaction/profile/export/ExportUtil';
+import type { ProfileData, ProfileHandler } from '../../identity/interaction/profile/ProfileHandler';
+import { extractProfileFromQuads, localizeProfile } from '../../identity/interaction/profile/ProfileHandler';
+import { parseLanguagePreferences, pickLanguage } from '../../identity/interaction/profile/util/LanguageUtil';
+
+const FOAF = 'http://xmlns.com/foaf/0.1/';
+const COLOR_REGEX = /^#[\dA-Fa-f]{6}$/u;
+
+/**
+ * An organization role as shown on the timeline of the page.
+ */
+type TimelineEntry = {
+  name: string;
+  url?: string;
+  role?: string;
+  startDate?: string;
+  endDate?: string;
+  description?: string;
+  current: boolean;
+};
+
+export interface ProfileToHtmlConverterArgs {
+  /**
+   * Renders the page, receives the WebID and the profile data, together with values prepared for display.
+   */
+  templateEngine: TemplateEngine;
+  /**
+   * Its fields determine how the profile is read from the document, its vocabularies how values are labeled.
+   */
+  profileHandler: ProfileHandler;
+  /**
+   * Regular expression matching the paths of the WebID profile documents.
+   * Defaults to documents named `profile/card`, as in the pods created by the server.
+   */
+  documentPattern?: string;
+}
+
+/**
+ * Renders WebID profile documents as a public profile page,
+ * so browsers opening a WebID get a readable page instead of Turtle.
+ * RDF clients are not affected, as the page is only served when HTML is preferred.
+ *
+ * The WebID is the `foaf:primaryTopic` of the document, or `#me` if there is none.
+ * Only the contents of the document itself are shown, so fields that are not public are never included.
+ * Values are prepared so the template can use them directly:
+ * links are only kept if they are HTTP(S) URLs and colors only if they are hex colors.
+ * Of the public addresses only the city and country are shown, as the location of the person.
+ * Texts with translations are shown in the language that best matches the preferences of the request.
+ * The page embeds the profile as schema.org JSON-LD.
+ */
+export class ProfileToHtmlConverter extends BaseTypedRepresentationConverter {
+  protected readonly logger = getLoggerFor(this);
+
+  private readonly templateEngine: TemplateEngine;
+  private readonly profileHandler: ProfileHandler;
+  private readonly documentPattern: RegExp;
+
+  public constructor(args: ProfileToHtmlConverterArgs) {
+    super(INTERNAL_QUADS, 'text/html');
+    this.templateEngine = args.templateEngine;
+    this.profileHandler = args.profileHandler;
+    this.documentPattern = new RegExp(args.documentPattern ?? '/profile/card$', 'u');
+  }
+
+  public async canHandle(args: RepresentationConverterArgs): Promise<void> {
+    if (!this.documentPattern.test(args.identifier.path)) {
+      throw new NotImplementedHttpError('Can only convert WebID profile documents.');
+    }
+    await super.canHandle(args);
+  }
+
+  public async handle({ identifier, representation, preferences }: RepresentationConverterArgs):
+  Promise<Representation> {
+    const store = await readableToQuads(representation.data);
+    const webId = store.getObjects(identifier.path, `${FOAF}primaryTopic`, null)[0]?.value ?? `${identifier.path}#me`;
+    const { fields } = this.profileHandler;
+    const profile = localizeProfile(extractProfileFromQuads(store.getQuads(null, null, null, null), webId, fields),
+      fields, parseLanguagePreferences(preferences.language));
+    const labels = await this.profileHandler.getLabels(profile);
+    this.logger.debug(`Rendering the profile page of ${webId}`);
+
+    const rendered = await this.templateEngine.handleSafe({ contents: {
+      webId,
+      profile,
+      name: getText(profile.name) ?? getText(profile.nickname) ?? webId,
+      photo: getHttpUrl(profile.photo),
+      homepage: getHttpUrl(profile.homepage),
+      pronouns: [ profile.preferredSubjectPronoun, profile.preferredObjectPronoun, profile.preferredRelativePronoun ]
+        .map(getText).filter(Boolean).join('/'),
+      location: getLocation(profile),
+      backgroundColor: getColor(profile.profileBackgroundColor, '#ffffff'),
+      highlightColor: getColor(profile.profileHighlightColor, '#7c4dff'),
+      organizations: getTimeline(profile),
+      languages: (profile.knowsLanguage ?? []).map((language): Dict<string> =>
+        ({ uri: language, label: labels[language] ?? getLanguageName(language) })),
+      skills: (profile.skills ?? []).map((skill): Dict<string> =>
+        ({ uri: skill, label: labels[skill] ?? (skill.split('/').pop() || skill) })),
+      accounts: (profile.accounts ?? []).map((account): Dict<string> => ({
+        type: account.label ?? account.type.replace(/Account$/u, ''),
+        name: account.accountName,
+        url: getHttpUrl(account.accountName) ?? getHttpUrl(account.accountServiceHomepage),
+      })),
+      jsonLd: toSchemaPerson(webId, profile),
+    }});
+    return new BasicRepresentation(rendered, representation.metadata, 'text/html');
+  }
+}
+
+function getText(value: unknown): string | undefined {
+  return pickLanguage(value, []);
+}
+
+/**
+ * Only HTTP(S) URLs are linked, so the document can not inject scripts through `javascript:` URLs.
+ */
+function getHttpUrl(value: unknown): string | undefined {
+  return typeof value === 'string' && /^https?:\/\//iu.test(value) ? value : undefined;
+}
+
+/**
+ * The colors end up in the style of the page, so they need to be actual colors.
+ */
+function getColor(value: unknown, fallback: string): string {
+  return typeof value === 'string' && COLOR_REGEX.test(value) ? value : fallback;
+}
+
+/**
+ * Returns the English name of the language of a language URI, or the URI if it is not known.
+ */
+function getLanguageName(uri: string): string {
+  const code = uri.split('/').pop() ?? '';
+  try {
+    return new Intl.DisplayNames([ 'en' ], { type: 'language' }).of(code) ?? uri;
+  } catch {
+    return uri;
+  }
+}
+
+/**
+ * Returns the city and country of the first address, preferring a work address.
+ */
+function getLocation(profile: ProfileData): string | undefined {
+  const addresses = profile.addresses ?? [];
+  const address = addresses.find((entry): boolean => entry.type === 'Work') ?? addresses[0];
+  if (address) {
+    return [ address.locality, address.country && getCountryName(address.country) ].filter(Boolean).join(', ') ||
+      undefined;
+  }
+}
+
+/**
+ * Sorts the organizations with the most recent role first, roles without a start date at the end.
+ */
+function getTimeline(profile: ProfileData): TimelineEntry[] {
+  return [ ...profile.organizations ?? [] ]
+    .sort((left, right): number => (right.startDate ?? '').localeCompare(left.startDate ?? ''))
+    .map((entry): TimelineEntry => ({
+      name: entry.organizationName ?? entry.organization ?? '',
+      url: getHttpUrl(entry.organization),
+      role: getText(entry.role),
+      startDate: entry.startDate,
+      endDate: entry.endDate,
+      description: getText(entry.description),
+      current: entry.roleType === 'CurrentRole',
+    }));
+}